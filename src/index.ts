@@ -37,12 +37,19 @@ export {
 export { ServiceAuthUtils } from "./utils/service-auth.utils.js";
 export {
   withRetry,
+  pollUntil,
+  PollTimeoutError,
   isRetryableError,
   DEFAULT_RETRY_ATTEMPTS,
   DEFAULT_RETRY_BASE_MS,
   DEFAULT_RETRY_MAX_MS,
   DEFAULT_RETRY_MAX_ELAPSED_MS,
   type RetryCondition,
+  type RetryJitter,
+  type RetryOptions,
+  type RetrySummary,
+  type PollAttempt,
+  type PollOptions,
 } from "./utils/retry.utils.js";
 export {
   createLogger,
@@ -51,18 +58,196 @@ export {
   type LogFormat,
   type LoggerOptions,
 } from "./logging/logger.js";
+export {
+  TestLogTransport,
+  createTestLogFixtures,
+  type TestLogFixtureOptions,
+  type TestLogFixtures,
+  type TestLogTransportOptions,
+  type TestLogWorkerFixtures,
+} from "./logging/test-log-transport.js";
 export {
   ApiClient,
   ApiClientError,
+  ApiSchemaError,
   buildApiAttachment,
   type ApiAttachmentOptions,
+  type ApiCircuitBreakerKey,
+  type ApiCircuitBreakerMetrics,
   type ApiClientOptions,
+  type ApiInterceptedRequest,
+  type ApiInterceptedResponse,
+  type ApiInterceptor,
   type ApiLogEntry,
+  type ApiPaginateOptions,
   type ApiRequestOptions,
   type ApiResponsePayload,
+  type ApiRetryPolicy,
+  type ApiSessionOptions,
+  type ApiStorageState,
+  type ApiTracingOptions,
 } from "./utils/api-client.js";
+export {
+  JsonFileSpanExporter,
+  OtlpHttpExporter,
+  TraceSpan,
+  Tracer,
+  parseTraceparent,
+  type JsonFileSpanExporterOptions,
+  type OtlpHttpExporterOptions,
+  type SpanAttributeValue,
+  type SpanAttributes,
+  type SpanContext,
+  type SpanData,
+  type SpanExporter,
+  type SpanKind,
+  type SpanStatusCode,
+  type StartSpanOptions,
+  type TracerOptions,
+} from "./utils/tracing.js";
+export {
+  ApiGraphQLError,
+  GraphQLClient,
+  type GraphQLClientOptions,
+  type GraphQLErrorItem,
+  type GraphQLOperationType,
+  type GraphQLRequestOptions,
+  type GraphQLResponseBody,
+  type GraphQLResult,
+} from "./utils/graphql-client.js";
+export { apiMatchers, describeLogEntry, expectApi } from "./utils/api-matchers.js";
+export {
+  guessMimeType,
+  type ApiMultipartFile,
+  type ApiMultipartValue,
+} from "./utils/multipart.utils.js";
+export {
+  findSecrets,
+  maskValue,
+  parseRedactionPath,
+  redactString,
+  summariseBinary,
+  type BinarySummary,
+  type RedactionMaskOptions,
+  type RedactionOptions,
+  type RedactionPathToken,
+  type SecretDetectorName,
+  type SecretMatch,
+  type SecretDetectorSetting,
+} from "./logging/redaction.js";
+export {
+  formatRedactionAuditReport,
+  scanForSecrets,
+  type RedactionAuditOptions,
+  type RedactionAuditReport,
+  type RedactionFinding,
+} from "./utils/redaction-audit.js";
+export {
+  ApiHarRecorder,
+  buildHar,
+  type HarEntry,
+  type HarLog,
+  type HarOptions,
+} from "./utils/har.utils.js";
+export {
+  ReplayMissError,
+  buildFixtureKey,
+  createRecordReplayFactory,
+  type RecordReplayMode,
+  type RecordReplayOptions,
+  type RecordedFixture,
+  type ReplayMatching,
+} from "./utils/record-replay.utils.js";
+export {
+  cursorStrategy,
+  elasticsearchStrategy,
+  nextLinkStrategy,
+  offsetLimitStrategy,
+  pageSizeStrategy,
+  type CursorStrategyOptions,
+  type ElasticsearchStrategyOptions,
+  type NextLinkStrategyOptions,
+  type OffsetLimitStrategyOptions,
+  type PageRequest,
+  type PageSizeStrategyOptions,
+  type PageState,
+  type PaginationStrategy,
+  type ValueSelector,
+} from "./utils/pagination.utils.js";
+export {
+  validateJsonSchema,
+  validateSchema,
+  type JsonSchema,
+  type ResponseSchema,
+  type SchemaIssue,
+  type SchemaValidationResult,
+  type SchemaValidator,
+} from "./utils/schema.utils.js";
+export {
+  BearerAuthProvider,
+  CombinedAuthProvider,
+  ServiceAuthProvider,
+  TokenAuthProvider,
+  TokenCache,
+  decodeJwtExpiry,
+  type AuthProvider,
+  type TokenAuthProviderOptions,
+  type TokenCacheOptions,
+} from "./utils/auth-provider.js";
+export {
+  FileCacheStore,
+  MemoryCacheStore,
+  buildCacheKey,
+  type ApiCacheOptions,
+  type ApiCacheStatus,
+  type CachedResponse,
+  type ResponseCacheStore,
+} from "./utils/response-cache.js";
+export {
+  BUILT_IN_RETRY_RULES,
+  RetryClassifier,
+  retryClassifier,
+  type RetryContext,
+  type RetryDecision,
+  type RetryRule,
+} from "./utils/retry-classifier.js";
+export {
+  MockServer,
+  createMockJwt,
+  mockIdam,
+  mockS2s,
+  type MockFault,
+  type MockHandler,
+  type MockIdamState,
+  type MockIdamUser,
+  type MockJournalEntry,
+  type MockMethod,
+  type MockRequest,
+  type MockResponse,
+  type MockRouteOptions,
+  type MockServerOptions,
+} from "./utils/mock-server.js";
+export {
+  RetryBudget,
+  type RetryBudgetMetrics,
+  type RetryBudgetOptions,
+} from "./utils/retry-budget.js";
+export {
+  RateLimiter,
+  type RateLimiterMetrics,
+  type RateLimiterOptions,
+  type RateLimiterSlot,
+} from "./utils/rate-limiter.js";
 export {
   CircuitBreaker,
+  CircuitBreakerRegistry,
+  type CircuitBreakerEvent,
+  type CircuitBreakerEventReason,
+  type CircuitBreakerEventType,
   type CircuitBreakerOptions,
   type CircuitBreakerMetrics,
+  type CircuitBreakerRegistryEvent,
+  type CircuitBreakerRegistryMetrics,
+  type CircuitBreakerRegistryOptions,
+  type CircuitBreakerSnapshot,
 } from "./utils/circuit-breaker.js";
@@ -5,6 +5,7 @@ import {
   buildRedactionState,
   sanitiseValue,
   type RedactPattern,
+  type RedactionOptions,
   type RedactionState,
 } from "./redaction.js";
 
@@ -16,6 +17,11 @@ export interface LoggerOptions {
   format?: LogFormat;
   enableRedaction?: boolean;
   redactKeys?: RedactPattern[];
+  /** Value detectors, e.g. `{ email: true, niNumber: true }` (see `RedactionOptions.detectors`) */
+  redactDetectors?: RedactionOptions["detectors"];
+  redactMask?: RedactionOptions["mask"];
+  /** Full redaction options (paths, allowlists, `mergeDefaults`); the shorthands above take precedence */
+  redaction?: RedactionOptions;
   transports?: winston.transport[];
   defaultMeta?: Record<string, unknown>;
 }
@@ -38,12 +44,19 @@ function resolveRedactionState(options?: LoggerOptions): RedactionState {
     process.env.LOG_REDACTION === undefined
       ? undefined
       : process.env.LOG_REDACTION.toLowerCase() !== "off";
-  const redactionOptions: { enabled?: boolean; patterns?: RedactPattern[] } = {
-    enabled: options?.enableRedaction ?? envToggle ?? true,
+  const redactionOptions: RedactionOptions = {
+    ...options?.redaction,
+    enabled: options?.enableRedaction ?? options?.redaction?.enabled ?? envToggle ?? true,
   };
   if (options?.redactKeys) {
     redactionOptions.patterns = options.redactKeys;
   }
+  if (options?.redactDetectors) {
+    redactionOptions.detectors = options.redactDetectors;
+  }
+  if (options?.redactMask) {
+    redactionOptions.mask = options.redactMask;
+  }
   return buildRedactionState(redactionOptions);
 }
 
@@ -142,4 +155,11 @@ export function createChildLogger(
 }
 
 export { REDACTED_VALUE } from "./redaction.js";
-export type { RedactPattern, RedactionState } from "./redaction.js";
+export type {
+  RedactPattern,
+  RedactionMaskOptions,
+  RedactionOptions,
+  RedactionState,
+  SecretDetectorName,
+  SecretDetectorSetting,
+} from "./redaction.js";
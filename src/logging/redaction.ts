@@ -1,3 +1,4 @@
+import { createHash } from "node:crypto";
 import { URL } from "node:url";
 
 export const REDACTED_VALUE = "[REDACTED]";
@@ -22,14 +23,145 @@ const DEFAULT_PATTERNS: RegExp[] = [
   /session/i,
 ];
 
+export type SecretDetectorName =
+  | "jwt"
+  | "basicAuth"
+  | "awsKey"
+  | "azureConnectionString"
+  | "email"
+  | "ukPhone"
+  | "niNumber"
+  | "postcode";
+
+/** How a detected value is replaced; by default the whole value becomes `[REDACTED]` */
+export interface RedactionMaskOptions {
+  /** Leading characters left visible */
+  keepFirst?: number;
+  /** Trailing characters left visible, e.g. 4 for "[REDACTED]6789" */
+  keepLast?: number;
+  replacement?: string;
+}
+
+/** `true`/`false` toggles a detector; an object enables it with its own masking */
+export type SecretDetectorSetting = boolean | RedactionMaskOptions;
+
+interface SecretDetector {
+  name: SecretDetectorName;
+  pattern: RegExp;
+  enabledByDefault: boolean;
+  /** Capture group 1 is a label kept in the output ("Basic ", "AccountKey=") */
+  keepsPrefix?: boolean;
+  validate?: (match: string) => boolean;
+}
+
+export interface ResolvedSecretDetector {
+  name: SecretDetectorName;
+  pattern: RegExp;
+  mask: RedactionMaskOptions;
+  keepsPrefix: boolean;
+  validate?: (match: string) => boolean;
+}
+
+/**
+ * Value detectors applied to every string, whatever its key. Credential detectors are on by
+ * default; personal-data detectors (email, phone, NI number, postcode) are opt-in.
+ */
+const SECRET_DETECTORS: readonly SecretDetector[] = [
+  {
+    name: "jwt",
+    pattern: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g,
+    enabledByDefault: true,
+  },
+  {
+    name: "basicAuth",
+    pattern: /(\bBasic\s+)[A-Za-z0-9+/]{8,}={0,2}/g,
+    enabledByDefault: true,
+    keepsPrefix: true,
+    // Only `user:pass` credentials, so prose such as "Basic information" is left alone
+    validate: (match) => {
+      const encoded = match.replace(/^Basic\s+/, "");
+      return /^[^:\s]+:[\x20-\x7e]*$/.test(Buffer.from(encoded, "base64").toString("latin1"));
+    },
+  },
+  {
+    name: "awsKey",
+    pattern: /\b(?:AKIA|ASIA)[A-Z0-9]{16}\b/g,
+    enabledByDefault: true,
+  },
+  {
+    name: "azureConnectionString",
+    pattern: /(\b(?:AccountKey|SharedAccessKey|SharedAccessSignature|sig)=)[^;&\s"']+/gi,
+    enabledByDefault: true,
+    keepsPrefix: true,
+  },
+  {
+    name: "email",
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g,
+    enabledByDefault: false,
+  },
+  {
+    name: "ukPhone",
+    pattern: /(?<![\d+])(?:\+44\s?(?:\(0\)\s?)?|0)\d{2,4}[\s-]?\d{3,4}[\s-]?\d{3,4}(?!\d)/g,
+    enabledByDefault: false,
+    validate: (match) => {
+      const digits = match.replace(/\D/g, "").replace(/^440?/, "0");
+      return digits.length === 10 || digits.length === 11;
+    },
+  },
+  {
+    name: "niNumber",
+    pattern: /\b[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z]\s?\d{2}\s?\d{2}\s?\d{2}\s?[A-D]\b/g,
+    enabledByDefault: false,
+  },
+  {
+    name: "postcode",
+    pattern: /\b[A-Z]{1,2}\d[A-Z\d]?\s?\d[A-Z]{2}\b/g,
+    enabledByDefault: false,
+  },
+];
+
+/** One step of a parsed redaction path: `.name`, `[0]`, `*` / `[*]` or `..` (any depth) */
+export type RedactionPathToken =
+  | { kind: "key"; name: string }
+  | { kind: "any" }
+  | { kind: "descend" };
+
+export type RedactionPathSegment = string | number;
+
 export interface RedactionState {
   enabled: boolean;
   patterns: RegExp[];
+  /** Value detectors; omitted on hand-built states, which use the defaults */
+  detectors?: ResolvedSecretDetector[];
+  /** Keys never redacted by `patterns` */
+  allowKeys?: RegExp[];
+  /** Paths always redacted, whatever their key */
+  paths?: RedactionPathToken[][];
+  /** Paths (and everything below them) exempt from key patterns */
+  allowPaths?: RedactionPathToken[][];
 }
 
 export interface RedactionOptions {
   enabled?: boolean;
   patterns?: RedactPattern[];
+  /**
+   * Toggle or configure value detectors, e.g. `{ email: true, jwt: { keepLast: 4 } }`.
+   * Unlisted detectors keep their default.
+   */
+  detectors?: Partial<Record<SecretDetectorName, SecretDetectorSetting>>;
+  /** Masking for detectors without their own options */
+  mask?: RedactionMaskOptions;
+  /** Add `patterns` to the default key patterns instead of replacing them */
+  mergeDefaults?: boolean;
+  /**
+   * JSONPath-style rules always redacted, e.g. `$.request.data.case_data.*.dateOfBirth` or
+   * `$..nationalInsuranceNumber`. ApiClient paths are relative to the `ApiLogEntry`.
+   */
+  paths?: string[];
+  /** Keys exempt from key patterns, e.g. `["sessionId"]`; value detectors still apply */
+  allowKeys?: RedactPattern[];
+  /** Paths exempt from key patterns, including everything below them */
+  allowPaths?: string[];
 }
 
 export interface SanitisedUrl {
@@ -39,23 +171,183 @@ export interface SanitisedUrl {
 
 export const SPLAT_SYMBOL = Symbol.for("splat");
 
+/** Logged in place of binary payloads so bytes never reach logs or attachments */
+export interface BinarySummary {
+  binary: true;
+  size: number;
+  contentType?: string;
+  sha256: string;
+}
+
+export function isBinaryValue(value: unknown): value is Uint8Array {
+  return value instanceof Uint8Array;
+}
+
+export function summariseBinary(
+  value: Uint8Array,
+  contentType?: string
+): BinarySummary {
+  const summary: BinarySummary = {
+    binary: true,
+    size: value.byteLength,
+    sha256: createHash("sha256").update(value).digest("hex"),
+  };
+  if (contentType) summary.contentType = contentType;
+  return summary;
+}
+
 export function buildRedactionState(
   options?: RedactionOptions
 ): RedactionState {
   const enabled = options?.enabled ?? true;
-  const patterns = options?.patterns?.length
-    ? options.patterns.map((pattern) =>
-      typeof pattern === "string" ? new RegExp(pattern, "i") : pattern
-    )
+  const custom = options?.patterns?.length ? options.patterns.map(toRegExp) : undefined;
+  const patterns = custom
+    ? options?.mergeDefaults
+      ? [...DEFAULT_PATTERNS, ...custom]
+      : custom
     : DEFAULT_PATTERNS;
-  return { enabled, patterns };
+  const state: RedactionState = { enabled, patterns, detectors: resolveDetectors(options) };
+  if (options?.allowKeys?.length) state.allowKeys = options.allowKeys.map(toRegExp);
+  if (options?.paths?.length) state.paths = options.paths.map(parseRedactionPath);
+  if (options?.allowPaths?.length) state.allowPaths = options.allowPaths.map(parseRedactionPath);
+  return state;
+}
+
+function toRegExp(pattern: RedactPattern): RegExp {
+  return typeof pattern === "string" ? new RegExp(pattern, "i") : pattern;
+}
+
+/**
+ * Parse a JSONPath-style rule: `$` followed by `.name`, `['name']`, `[0]`, `.*` / `[*]`
+ * (any key or index) and `..name` (at any depth).
+ */
+export function parseRedactionPath(path: string): RedactionPathToken[] {
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid redaction path "${path}": ${reason}`);
+  };
+  if (!path.startsWith("$")) fail("must start with $");
+  const tokens: RedactionPathToken[] = [];
+  let i = 1;
+  while (i < path.length) {
+    if (path.startsWith("..", i)) {
+      tokens.push({ kind: "descend" });
+      i += path[i + 2] === "[" ? 2 : 1;
+    }
+    const char = path[i];
+    if (char === ".") {
+      const match = /^(\*|[^.[\]]+)/.exec(path.slice(i + 1));
+      if (!match?.[1]) fail(`expected a name after "." at ${i}`);
+      const name = match?.[1] ?? "";
+      tokens.push(name === "*" ? { kind: "any" } : { kind: "key", name });
+      i += 1 + name.length;
+    } else if (char === "[") {
+      const match = /^\[(\*|\d+|'[^']*'|"[^"]*")\]/.exec(path.slice(i));
+      if (!match?.[1]) fail(`unterminated or invalid [...] at ${i}`);
+      const inner = match?.[1] ?? "";
+      tokens.push(inner === "*" ? { kind: "any" } : { kind: "key", name: inner.replace(/^['"]|['"]$/g, "") });
+      i += match?.[0].length ?? 0;
+    } else {
+      fail(`unexpected "${char}" at ${i}`);
+    }
+  }
+  return tokens;
+}
+
+/** Whether `tokens` match `segments` exactly, or match a prefix of them when `prefix` is set */
+function matchesPath(tokens: RedactionPathToken[], segments: RedactionPathSegment[], prefix: boolean, ti = 0, si = 0): boolean {
+  const token = tokens[ti];
+  if (!token) return prefix || si === segments.length;
+  if (token.kind === "descend") {
+    const next = tokens[ti + 1];
+    for (let k = si; k < segments.length; k++) {
+      if (next && matchesSegment(next, segments[k]) && matchesPath(tokens, segments, prefix, ti + 2, k + 1)) {
+        return true;
+      }
+    }
+    return false;
+  }
+  return si < segments.length && matchesSegment(token, segments[si]) && matchesPath(tokens, segments, prefix, ti + 1, si + 1);
+}
+
+function matchesSegment(token: RedactionPathToken, segment: RedactionPathSegment | undefined): boolean {
+  if (segment === undefined) return false;
+  return token.kind === "any" || (token.kind === "key" && token.name === String(segment));
+}
+
+/** Concrete segments of a base path such as `$.request.headers` */
+function toSegments(path: string): RedactionPathSegment[] {
+  return parseRedactionPath(path).map((token) => {
+    if (token.kind !== "key") throw new Error(`Invalid redaction path "${path}": base paths cannot use * or ..`);
+    return token.name;
+  });
+}
+
+function usesPaths(state: RedactionState): boolean {
+  return !!(state.paths?.length || state.allowPaths?.length);
+}
+
+/**
+ * Whether the value at `key` / `segments` (its concrete path, e.g. `["request", "headers", "authorization"]`)
+ * is redacted as a whole: path rules first (redact beats allow), then the key allowlist and key patterns.
+ */
+export function shouldRedactNode(
+  key: string | undefined,
+  segments: RedactionPathSegment[] | undefined,
+  state: RedactionState
+): boolean {
+  if (segments) {
+    if (state.paths?.some((rule) => matchesPath(rule, segments, false))) return true;
+    if (state.allowPaths?.some((rule) => matchesPath(rule, segments, true))) return false;
+  }
+  return shouldRedactKey(key, state);
+}
+
+function childSegments(
+  base: RedactionPathSegment[] | undefined,
+  key: string,
+  state: RedactionState
+): RedactionPathSegment[] | undefined {
+  return base && usesPaths(state) ? [...base, key] : undefined;
+}
+
+/** Root segments for a value: the given base path, else its key, else `$` itself */
+function rootSegments(state: RedactionState, key?: string, path?: string): RedactionPathSegment[] | undefined {
+  if (!usesPaths(state)) return undefined;
+  if (path !== undefined) return toSegments(path);
+  return key === undefined ? [] : [key];
+}
+
+function resolveDetectors(options?: RedactionOptions): ResolvedSecretDetector[] {
+  const resolved: ResolvedSecretDetector[] = [];
+  for (const detector of SECRET_DETECTORS) {
+    const setting = options?.detectors?.[detector.name] ?? detector.enabledByDefault;
+    if (setting === false) continue;
+    const mask = setting === true ? (options?.mask ?? {}) : setting;
+    for (const [name, count] of [["keepFirst", mask.keepFirst], ["keepLast", mask.keepLast]] as const) {
+      if (count !== undefined && (!Number.isInteger(count) || count < 0)) {
+        throw new Error(`${detector.name} ${name} must be a non-negative integer, got ${count}`);
+      }
+    }
+    const entry: ResolvedSecretDetector = {
+      name: detector.name,
+      pattern: detector.pattern,
+      mask,
+      keepsPrefix: detector.keepsPrefix ?? false,
+    };
+    if (detector.validate) entry.validate = detector.validate;
+    resolved.push(entry);
+  }
+  return resolved;
 }
 
+let defaultDetectors: ResolvedSecretDetector[] | undefined;
+
 export function shouldRedactKey(
   key: string | undefined,
   state: RedactionState
 ): boolean {
   if (!state.enabled || !key) return false;
+  if (state.allowKeys?.some((pattern) => pattern.test(key))) return false;
   return state.patterns.some((pattern) => pattern.test(key));
 }
 
@@ -64,18 +356,34 @@ export function shouldRedactKey(
  *
  * Note: The returned value maintains the same structure as the input, but with
  * sensitive data replaced with [REDACTED]. The type cast to T is safe because
- * the structure is preserved, only values are changed.
+ * the structure is preserved, only values are changed. Buffers are replaced with
+ * a {@link BinarySummary} whether or not redaction is enabled.
  *
  * @param value - Value to sanitize
  * @param state - Redaction state with enabled flag and patterns
  * @param key - Optional key name for determining if the value itself should be redacted
+ * @param path - Optional JSONPath of the value (e.g. `$.request.data`) that path rules are relative to
  * @returns Sanitized value with same structure as input
  */
 export function sanitiseValue<T>(
   value: T,
   state: RedactionState,
-  key?: string
+  key?: string,
+  path?: string
 ): T {
+  return sanitiseNode(value, state, key, rootSegments(state, key, path));
+}
+
+function sanitiseNode<T>(
+  value: T,
+  state: RedactionState,
+  key: string | undefined,
+  root: RedactionPathSegment[] | undefined
+): T {
+  if (isBinaryValue(value)) {
+    return summariseBinary(value) as unknown as T;
+  }
+
   if (!state.enabled) {
     return value;
   }
@@ -84,12 +392,12 @@ export function sanitiseValue<T>(
     return value;
   }
 
-  if (shouldRedactKey(key, state)) {
+  if (shouldRedactNode(key, root, state)) {
     return REDACTED_VALUE as unknown as T;
   }
 
   if (typeof value === "string") {
-    return redactString(value) as unknown as T;
+    return redactString(value, state) as unknown as T;
   }
 
   if (typeof value !== "object") {
@@ -101,26 +409,41 @@ export function sanitiseValue<T>(
   }
 
   const seen = new WeakSet<object>();
+  // Path of each object or array visited so far, keyed by the object; only tracked for path rules
+  const paths = new WeakMap<object, RedactionPathSegment[]>();
 
   try {
-    const json = JSON.stringify(value, (currentKey, currentValue) => {
+    const json = JSON.stringify(value, function (currentKey, currentValue: unknown) {
+      // Buffer.toJSON has already run on currentValue; check the original on the holder
+      const original = (this as Record<string, unknown>)[currentKey];
+      if (isBinaryValue(original)) {
+        return summariseBinary(original);
+      }
+
       if (typeof currentValue === "bigint") {
         return currentValue.toString();
       }
 
+      const holder = this as object;
+      const isRoot = currentKey === "" && !paths.has(holder);
+      const segments = isRoot
+        ? root
+        : childSegments(paths.get(holder), currentKey, state);
+
       if (typeof currentValue === "object" && currentValue !== null) {
         if (seen.has(currentValue)) {
           return CIRCULAR_PLACEHOLDER;
         }
         seen.add(currentValue);
+        if (segments) paths.set(currentValue, segments);
       }
 
-      if (shouldRedactKey(currentKey, state)) {
+      if (!isRoot && shouldRedactNode(currentKey, segments, state)) {
         return REDACTED_VALUE;
       }
 
       if (typeof currentValue === "string") {
-        return redactString(currentValue);
+        return redactString(currentValue, state);
       }
 
       return currentValue;
@@ -150,42 +473,110 @@ export function sanitiseRecord(
   return sanitised;
 }
 
+/** `path` is the JSONPath of the headers object, e.g. `$.request.headers` */
 export function sanitiseHeaders(
   headers: Record<string, string> | undefined,
-  state: RedactionState
+  state: RedactionState,
+  path?: string
 ): Record<string, string> | undefined {
   if (!headers) return headers;
+  const base = path !== undefined && usesPaths(state) ? toSegments(path) : undefined;
   const entries: Record<string, string> = {};
   for (const [key, value] of Object.entries(headers)) {
-    entries[key] = sanitiseValue(value, state, key);
+    entries[key] = sanitiseNode(value, state, key, base ? [...base, key] : rootSegments(state, key));
   }
   return entries;
 }
 
-export function sanitiseUrl(url: string, state: RedactionState): string {
+/** `path` is the JSONPath that query parameters sit under, e.g. `$.request.query` */
+export function sanitiseUrl(url: string, state: RedactionState, path?: string): string {
   if (!state.enabled) return url;
+  const base = path !== undefined && usesPaths(state) ? toSegments(path) : undefined;
   try {
     const parsed = new URL(url);
     for (const key of parsed.searchParams.keys()) {
-      if (shouldRedactKey(key, state)) {
+      if (shouldRedactNode(key, base ? [...base, key] : rootSegments(state, key), state)) {
         parsed.searchParams.set(key, REDACTED_VALUE);
       } else {
         const currentValue = parsed.searchParams.get(key);
         if (currentValue) {
-          parsed.searchParams.set(key, redactString(currentValue));
+          parsed.searchParams.set(key, redactString(currentValue, state));
         }
       }
     }
     return parsed.toString();
   } catch {
-    return redactString(url);
+    return redactString(url, state);
   }
 }
 
-export function redactString(value: string): string {
-  return value
+/**
+ * Redact secrets inside free text: `Bearer` tokens, `key=value` pairs with sensitive keys and
+ * anything the state's value detectors match (the default detectors when no state is given).
+ */
+export function redactString(value: string, state?: RedactionState): string {
+  let result = value
     .replaceAll(TOKEN_TEXT_REGEX, "$1" + REDACTED_VALUE)
     .replaceAll(KEY_VALUE_SECRET_REGEX, "$1$2$3" + REDACTED_VALUE);
+  const detectors = state?.detectors ?? (defaultDetectors ??= resolveDetectors());
+  for (const detector of detectors) {
+    result = result.replaceAll(detector.pattern, (match: string, prefix: unknown) => {
+      if (detector.validate && !detector.validate(match)) return match;
+      if (!detector.keepsPrefix) return maskValue(match, detector.mask);
+      const label = String(prefix);
+      return label + maskValue(match.slice(label.length), detector.mask);
+    });
+  }
+  return result;
+}
+
+/** A secret found in free text; `detector` is a value detector name, "bearer" or "keyValue" */
+export interface SecretMatch {
+  detector: string;
+  /** The secret itself (not the surrounding label) */
+  value: string;
+  index: number;
+}
+
+/**
+ * Report what `redactString` would mask, without masking it. Values that are already
+ * redacted are ignored.
+ */
+export function findSecrets(value: string, state?: RedactionState): SecretMatch[] {
+  const found: SecretMatch[] = [];
+  for (const match of value.matchAll(TOKEN_TEXT_REGEX)) {
+    found.push({ detector: "bearer", value: match[2] ?? "", index: match.index + (match[1]?.length ?? 0) });
+  }
+  for (const match of value.matchAll(KEY_VALUE_SECRET_REGEX)) {
+    const secret = match[4] ?? "";
+    if (secret.startsWith(REDACTED_VALUE)) continue;
+    found.push({ detector: "keyValue", value: secret, index: match.index + match[0].length - secret.length });
+  }
+  const detectors = state?.detectors ?? (defaultDetectors ??= resolveDetectors());
+  for (const detector of detectors) {
+    for (const match of value.matchAll(detector.pattern)) {
+      if (detector.validate && !detector.validate(match[0])) continue;
+      const label = detector.keepsPrefix ? (match[1] ?? "") : "";
+      found.push({ detector: detector.name, value: match[0].slice(label.length), index: match.index + label.length });
+    }
+  }
+  // Overlapping detectors ("Bearer eyJ...") report the earliest, longest match once
+  found.sort((a, b) => a.index - b.index || b.value.length - a.value.length);
+  let end = -1;
+  return found.filter((match) => {
+    if (match.index < end) return false;
+    end = match.index + match.value.length;
+    return true;
+  });
+}
+
+/** Replace `value` with the mask replacement, keeping `keepFirst`/`keepLast` characters visible */
+export function maskValue(value: string, mask: RedactionMaskOptions = {}): string {
+  const keepFirst = mask.keepFirst ?? 0;
+  const keepLast = mask.keepLast ?? 0;
+  const replacement = mask.replacement ?? REDACTED_VALUE;
+  if (keepFirst + keepLast >= value.length) return replacement;
+  return value.slice(0, keepFirst) + replacement + value.slice(value.length - keepLast);
 }
 
 // Backwards compatibility aliases (American spelling)
@@ -0,0 +1,202 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { Fixtures, TestInfo, WorkerInfo } from "@playwright/test";
+import { transports as winstonTransports } from "winston";
+import type { Logger } from "winston";
+import Transport from "winston-transport";
+import { createLogger, type LoggerOptions } from "./logger.js";
+
+export interface TestLogTransportOptions {
+  /** Directory for the per-worker files (default: `test-results/logs`) */
+  dir?: string;
+  /** Default: `TEST_WORKER_INDEX` set by Playwright, else 0 */
+  workerIndex?: number;
+  /** Rotate `worker-N.jsonl` once it would exceed this size (default: 10 MB) */
+  maxFileBytes?: number;
+  /** Files kept per worker, including the current one (default: 5) */
+  maxFiles?: number;
+  /** Lines buffered per test; older lines are dropped first (default: 5000) */
+  maxLinesPerTest?: number;
+  level?: string;
+}
+
+interface TestBuffer {
+  lines: string[];
+  dropped: number;
+}
+
+/**
+ * Winston transport that appends JSON lines to a rotating file per Playwright worker and
+ * buffers each test's lines so they can be attached to its report. A line belongs to the
+ * test named by its `testId` meta, or else to the test started with `startTest()`.
+ *
+ * Files are `worker-<index>.jsonl`, rotated to `worker-<index>.1.jsonl` (newest) and up.
+ * Lines are written after the logger's format, so they are already redacted.
+ */
+export class TestLogTransport extends Transport {
+  public readonly file: string;
+  private readonly maxFileBytes: number;
+  private readonly maxFiles: number;
+  private readonly maxLinesPerTest: number;
+  private readonly buffers = new Map<string, TestBuffer>();
+  private currentTestId: string | undefined;
+  private size: number;
+
+  constructor(options: TestLogTransportOptions = {}) {
+    super(options.level === undefined ? {} : { level: options.level });
+    this.maxFileBytes = options.maxFileBytes ?? 10 * 1024 * 1024;
+    this.maxFiles = options.maxFiles ?? 5;
+    this.maxLinesPerTest = options.maxLinesPerTest ?? 5000;
+    if (this.maxFileBytes <= 0) {
+      throw new Error(`maxFileBytes must be > 0, got ${this.maxFileBytes}`);
+    }
+    if (this.maxFiles < 1) {
+      throw new Error(`maxFiles must be >= 1, got ${this.maxFiles}`);
+    }
+    const workerIndex = options.workerIndex ?? Number(process.env.TEST_WORKER_INDEX ?? 0);
+    const dir = options.dir ?? path.join("test-results", "logs");
+    fs.mkdirSync(dir, { recursive: true });
+    this.file = path.join(dir, `worker-${workerIndex}.jsonl`);
+    this.size = fs.existsSync(this.file) ? fs.statSync(this.file).size : 0;
+  }
+
+  /** Lines logged from now on without a `testId` belong to this test */
+  public startTest(testId: string): void {
+    this.currentTestId = testId;
+    this.buffers.set(testId, { lines: [], dropped: 0 });
+  }
+
+  /** Stop capturing for a test and return its lines (oldest first) */
+  public endTest(testId: string): string[] {
+    if (this.currentTestId === testId) this.currentTestId = undefined;
+    const lines = this.getTestLogs(testId);
+    this.buffers.delete(testId);
+    return lines;
+  }
+
+  public getTestLogs(testId: string): string[] {
+    const buffer = this.buffers.get(testId);
+    if (!buffer) return [];
+    if (!buffer.dropped) return [...buffer.lines];
+    const notice = JSON.stringify({
+      level: "warn",
+      message: `${buffer.dropped} earlier log line(s) dropped (maxLinesPerTest ${this.maxLinesPerTest})`,
+      testId,
+    });
+    return [notice, ...buffer.lines];
+  }
+
+  public override log(info: Record<string, unknown>, next: () => void): void {
+    const testId = typeof info.testId === "string" ? info.testId : this.currentTestId;
+    const line = JSON.stringify(testId && info.testId === undefined ? { ...info, testId } : info);
+
+    this.append(line);
+    const buffer = testId ? this.buffers.get(testId) : undefined;
+    if (buffer) {
+      buffer.lines.push(line);
+      if (buffer.lines.length > this.maxLinesPerTest) {
+        buffer.lines.shift();
+        buffer.dropped++;
+      }
+    }
+    setImmediate(() => this.emit("logged", info));
+    next();
+  }
+
+  private append(line: string): void {
+    const bytes = Buffer.byteLength(line) + 1;
+    if (this.size > 0 && this.size + bytes > this.maxFileBytes) {
+      this.rotate();
+    }
+    fs.appendFileSync(this.file, `${line}\n`);
+    this.size += bytes;
+  }
+
+  private rotate(): void {
+    const rotated = (index: number) => this.file.replace(/\.jsonl$/, `.${index}.jsonl`);
+    fs.rmSync(this.maxFiles > 1 ? rotated(this.maxFiles - 1) : this.file, { force: true });
+    for (let index = this.maxFiles - 2; index >= 1; index--) {
+      if (fs.existsSync(rotated(index))) fs.renameSync(rotated(index), rotated(index + 1));
+    }
+    if (this.maxFiles > 1 && fs.existsSync(this.file)) fs.renameSync(this.file, rotated(1));
+    this.size = 0;
+  }
+}
+
+export interface TestLogFixtureOptions extends TestLogTransportOptions {
+  /** Options for the per-test logger; its transports are kept alongside the capture transport */
+  logger?: Omit<LoggerOptions, "defaultMeta">;
+  /** When to attach the test's logs (default: "on-failure") */
+  attach?: "on-failure" | "always" | "never";
+  /** Attachment name (default: "test-logs.jsonl") */
+  attachmentName?: string;
+}
+
+export interface TestLogFixtures {
+  /** Logger whose lines carry this test's id, title and worker and are captured for its report */
+  logger: Logger;
+}
+
+export interface TestLogWorkerFixtures {
+  testLogTransport: TestLogTransport;
+}
+
+/**
+ * Fixtures for `test.extend()`: a worker-scoped `testLogTransport` and a per-test `logger`.
+ * The test's log lines are attached to the report when it fails (or as `attach` says).
+ *
+ * @example
+ * ```typescript
+ * export const test = base.extend<TestLogFixtures, TestLogWorkerFixtures>(
+ *   createTestLogFixtures({ logger: { serviceName: "civil-ui" } })
+ * );
+ * ```
+ */
+export function createTestLogFixtures(
+  options: TestLogFixtureOptions = {}
+): Fixtures<TestLogFixtures, TestLogWorkerFixtures> {
+  const { logger: loggerOptions, attach = "on-failure", attachmentName = "test-logs.jsonl", ...transportOptions } =
+    options;
+
+  return {
+    testLogTransport: [
+      async ({}, use: (transport: TestLogTransport) => Promise<void>, workerInfo: WorkerInfo) => {
+        await use(new TestLogTransport({ workerIndex: workerInfo.workerIndex, ...transportOptions }));
+      },
+      { scope: "worker" },
+    ],
+    logger: async (
+      { testLogTransport }: TestLogWorkerFixtures,
+      use: (logger: Logger) => Promise<void>,
+      testInfo: TestInfo
+    ) => {
+      const logger = createLogger({
+        ...loggerOptions,
+        transports: [
+          ...(loggerOptions?.transports?.length
+            ? loggerOptions.transports
+            : [new winstonTransports.Console({ stderrLevels: ["error", "warn"] })]),
+          testLogTransport,
+        ],
+        defaultMeta: {
+          testId: testInfo.testId,
+          testTitle: testInfo.titlePath.join(" > "),
+          workerIndex: testInfo.workerIndex,
+          retry: testInfo.retry,
+        },
+      });
+      testLogTransport.startTest(testInfo.testId);
+      try {
+        await use(logger);
+      } finally {
+        const lines = testLogTransport.endTest(testInfo.testId);
+        // Unpipe from the shared transport so per-test loggers do not pile up listeners
+        logger.clear();
+        const failed = testInfo.status !== testInfo.expectedStatus;
+        if (lines.length && (attach === "always" || (attach === "on-failure" && failed))) {
+          await testInfo.attach(attachmentName, { body: lines.join("\n"), contentType: "text/plain" });
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,91 @@
+#!/usr/bin/env node
+
+import * as fs from "fs";
+import {
+  formatRedactionAuditReport,
+  scanForSecrets,
+} from "../utils/redaction-audit.js";
+
+// Scans Playwright artefacts for secrets that escaped redaction and exits 1 when any are found,
+// so CI can fail the build before reports are published.
+
+const DEFAULT_ROOTS = ["test-results", "playwright-report"];
+
+const args = process.argv.slice(2);
+/** @type {string[]} */
+const roots = [];
+/** @type {import("../logging/redaction.js").RedactionOptions} */
+const redaction = {};
+/** @type {string | undefined} */
+let outputPath;
+
+for (let i = 0; i < args.length; i++) {
+  const arg = args[i];
+  const next = () => {
+    const value = args[++i];
+    if (!value) showUsage();
+    return value;
+  };
+  if (arg === "--help" || arg === "-h") {
+    showUsage(0);
+  } else if (arg === "--detectors") {
+    // Enable extra detectors, e.g. the opt-in personal data ones: email,ukPhone,niNumber,postcode
+    redaction.detectors = Object.fromEntries(list(next()).map((name) => [name, true]));
+  } else if (arg === "--allow-keys") {
+    redaction.allowKeys = list(next());
+  } else if (arg === "--allow-paths") {
+    redaction.allowPaths = list(next());
+  } else if (arg === "--output") {
+    outputPath = next();
+  } else if (arg?.startsWith("--")) {
+    console.error(`Unknown option ${arg}`);
+    showUsage();
+  } else if (arg) {
+    roots.push(arg);
+  }
+}
+
+/**
+ * @param {string} value
+ * @returns {string[]}
+ */
+function list(value) {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+function runAudit() {
+  try {
+    const report = scanForSecrets(roots.length ? roots : DEFAULT_ROOTS, {
+      redaction,
+    });
+    console.log(formatRedactionAuditReport(report));
+    if (outputPath) {
+      fs.writeFileSync(outputPath, JSON.stringify(report, null, 2), "utf-8");
+      console.log(`Report written to ${outputPath}`);
+    }
+    process.exit(report.findings.length ? 1 : 0);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error("Error:", message);
+    process.exit(2);
+  }
+}
+
+/**
+ * @param {number} [code]
+ */
+function showUsage(code = 2) {
+  console.error(`
+Usage: redaction-audit [paths..] [--detectors a,b] [--allow-keys a,b] [--allow-paths a,b] [--output report.json]
+
+Scans ${DEFAULT_ROOTS.join(" and ")} by default. Exits 1 when secrets are found.
+
+Example:
+    yarn redaction-audit test-results playwright-report logs --detectors email,niNumber --output redaction-audit.json`);
+  process.exit(code);
+}
+
+runAudit();
@@ -1,21 +1,174 @@
-import { APIRequestContext, APIResponse, request } from "@playwright/test";
+import {
+  APIRequestContext,
+  APIResponse,
+  request,
+  type BrowserContext,
+  type BrowserContextOptions,
+} from "@playwright/test";
 import { randomUUID } from "node:crypto";
+import { Readable } from "node:stream";
 import type { Logger } from "winston";
-import { CircuitBreaker } from "./circuit-breaker.js";
-import type { CircuitBreakerMetrics } from "./circuit-breaker.js";
+import type { AuthProvider } from "./auth-provider.js";
+import type { PageRequest, PaginationStrategy } from "./pagination.utils.js";
+import {
+  resolveMultipart,
+  summariseMultipart,
+  toFetchMultipart,
+  type ApiMultipartValue,
+} from "./multipart.utils.js";
+import { CircuitBreaker, CircuitBreakerRegistry } from "./circuit-breaker.js";
+import type {
+  CircuitBreakerMetrics,
+  CircuitBreakerOptions,
+  CircuitBreakerRegistryEvent,
+} from "./circuit-breaker.js";
+import {
+  MemoryCacheStore,
+  buildCacheKey,
+  type ApiCacheOptions,
+  type ApiCacheStatus,
+  type CachedResponse,
+  type ResponseCacheStore,
+} from "./response-cache.js";
+import type { RetryBudget } from "./retry-budget.js";
+import { ReplayMissError } from "./record-replay.utils.js";
+import {
+  RateLimiter,
+  type RateLimiterMetrics,
+  type RateLimiterOptions,
+  type RateLimiterSlot,
+} from "./rate-limiter.js";
 import {
   buildRedactionState,
+  isBinaryValue,
   sanitiseHeaders,
   sanitiseUrl,
   sanitiseValue,
-  type RedactPattern,
+  summariseBinary,
+  type RedactionOptions,
   type RedactionState,
 } from "../logging/redaction.js";
+import {
+  validateSchema,
+  type ResponseSchema,
+  type SchemaIssue,
+} from "./schema.utils.js";
 import { createLogger } from "../logging/logger.js";
 import type { LoggerOptions } from "../logging/logger.js";
+import {
+  DEFAULT_RETRY_BASE_MS,
+  DEFAULT_RETRY_MAX_ELAPSED_MS,
+  DEFAULT_RETRY_MAX_MS,
+  computeRetryDelay,
+  parseRetryAfterMs,
+} from "./retry.utils.js";
+import { parseTraceparent, type TraceSpan, type Tracer } from "./tracing.js";
 
 type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
 
+const DEFAULT_PAGINATE_MAX_ITEMS = 10_000;
+const DEFAULT_PAGINATE_MAX_PAGES = 1_000;
+const DEFAULT_RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+const IDEMPOTENT_METHODS: HttpMethod[] = ["GET", "PUT", "DELETE"];
+
+/**
+ * Retry policy applied by ApiClient to each request.
+ * Network failures (status 0) and the configured statuses are retried for idempotent
+ * methods only; POST/PATCH require `retryNonIdempotent` (or listing them in `retryableMethods`).
+ */
+export interface ApiRetryPolicy {
+  /** Total attempts including the first call (default: 1, i.e. no retry) */
+  attempts?: number;
+  baseMs?: number;
+  maxMs?: number;
+  maxElapsedMs?: number;
+  /** HTTP statuses worth retrying (default: 408, 429, 500, 502, 503, 504) */
+  retryableStatuses?: number[];
+  /** Methods eligible for retry (default: GET, PUT, DELETE) */
+  retryableMethods?: HttpMethod[];
+  /** Allow retrying methods outside `retryableMethods`, e.g. a POST known to be safe */
+  retryNonIdempotent?: boolean;
+  /** Shared retry budget; once exhausted, failures are surfaced instead of retried */
+  budget?: RetryBudget;
+}
+
+type ResolvedRetryPolicy = Required<Omit<ApiRetryPolicy, "budget">> & {
+  budget: RetryBudget | undefined;
+};
+
+/** Per-attempt facts recorded on the log entry: start (after queueing), queue wait, cache outcome, span */
+interface AttemptContext {
+  startTime: number;
+  queueWaitMs: number | undefined;
+  cache?: ApiCacheStatus;
+  span?: TraceSpan | undefined;
+}
+
+type ResolvedCacheOptions = Required<Omit<ApiCacheOptions, "store">> & {
+  store: ResponseCacheStore;
+};
+
+interface ResolvedCircuitBreakers {
+  registry: CircuitBreakerRegistry;
+  keyBy: ApiCircuitBreakerKey;
+  options: CircuitBreakerOptions | undefined;
+  failureStatuses: number[] | ((status: number) => boolean);
+  /** Keys this client has used, so metrics only cover its own breakers */
+  keys: Set<string>;
+  /** Removes this client's `onEvent` listeners from the (possibly shared) registry */
+  unsubscribe: () => void;
+}
+
+type QueryParamValue = string | number | boolean | undefined;
+
+/**
+ * Mutable view of an outgoing request handed to interceptors.
+ * Interceptors may rewrite the URL, headers, body or query before it is sent.
+ */
+export interface ApiInterceptedRequest {
+  readonly method: HttpMethod;
+  url: string;
+  headers: Record<string, string>;
+  data?: unknown;
+  form?: Record<string, string>;
+  multipart?: Record<string, ApiMultipartValue>;
+  query?: Record<string, QueryParamValue>;
+  readonly correlationId: string;
+  readonly attempt: number;
+}
+
+/** Raw response as seen by interceptors (body is the unparsed text) */
+export interface ApiInterceptedResponse {
+  status: number;
+  headers: Record<string, string>;
+  body?: string;
+  /** Raw bytes, set instead of `body` when the request asked for `responseType` buffer or stream */
+  buffer?: Buffer;
+}
+
+type InterceptorResult = ApiInterceptedResponse | void;
+
+/**
+ * Ordered middleware hooks run for every request attempt.
+ * - `beforeRequest` may mutate the request, or return a response to short-circuit the network call.
+ * - `afterResponse` may mutate the response, or return a replacement.
+ * - `onError` may return a response to recover from an `ApiClientError`; otherwise the error propagates.
+ */
+export interface ApiInterceptor {
+  name?: string;
+  beforeRequest?: (
+    request: ApiInterceptedRequest
+  ) => InterceptorResult | Promise<InterceptorResult>;
+  afterResponse?: (
+    response: ApiInterceptedResponse,
+    request: ApiInterceptedRequest
+  ) => InterceptorResult | Promise<InterceptorResult>;
+  onError?: (
+    error: ApiClientError,
+    request: ApiInterceptedRequest
+  ) => InterceptorResult | Promise<InterceptorResult>;
+}
+
 export interface ApiClientOptions {
   baseUrl?: string;
   defaultHeaders?: Record<string, string>;
@@ -27,35 +180,122 @@ export interface ApiClientOptions {
   };
   requestFactory?: () => Promise<APIRequestContext>;
   name?: string;
-  redaction?: {
-    enabled?: boolean;
-    patterns?: RedactPattern[];
-  };
+  /** Key patterns, value detectors and masking for logged requests and responses */
+  redaction?: RedactionOptions;
   captureRawBodies?: boolean;
   correlationId?: string;
   onResponse?: (entry: ApiLogEntry) => void;
   onError?: (error: ApiClientError) => void;
   circuitBreaker?: {
     enabled?: boolean;
-    options?: {
-      failureThreshold?: number;
-      cooldownMs?: number;
-      halfOpenMaxAttempts?: number;
-    };
+    options?: CircuitBreakerOptions;
+    /**
+     * Statuses that count as breaker failures; `0` is a network error. Default: 0, 408, 429
+     * and 5xx. Other responses, including 4xx, count as successes.
+     */
+    failureStatuses?: number[] | ((status: number) => boolean);
+    /** Breaker transitions and rejected calls for the breakers this client uses */
+    onEvent?: (event: CircuitBreakerRegistryEvent) => void;
+    /** One breaker for the whole client (default), per host, per path template, or per custom key */
+    keyBy?: ApiCircuitBreakerKey;
+    /** Share breakers with other clients (and, with a `stateFile`, other workers) */
+    registry?: CircuitBreakerRegistry;
   };
+  retry?: ApiRetryPolicy;
+  /**
+   * Token bucket and max-in-flight limits for this client. Pass a `RateLimiter` instance
+   * to share one budget between clients. A 429/503 `Retry-After` pauses the whole queue.
+   */
+  rateLimit?: RateLimiterOptions | RateLimiter;
+  /** Opt-in cache for GET responses with TTL and ETag / Last-Modified revalidation */
+  cache?: ApiCacheOptions;
+  interceptors?: ApiInterceptor[];
+  /** Supplies auth headers per request; credentials are refreshed and the call replayed once on 401 */
+  auth?: AuthProvider;
+  /** Send a signed-in browser session's cookies, e.g. for calls to the EXUI node layer */
+  session?: ApiSessionOptions;
+  /** Record a client span per attempt and send its W3C `traceparent` to the service */
+  tracing?: ApiTracingOptions;
 }
 
-type QueryParamValue = string | number | boolean | undefined;
+export interface ApiTracingOptions {
+  tracer: Tracer;
+  /** Send the `traceparent` header (default: true); turn off for hosts outside your trace */
+  propagate?: boolean;
+}
+
+/** Storage state as saved by `context.storageState({ path })`, or its file path */
+export type ApiStorageState = Exclude<BrowserContextOptions["storageState"], undefined>;
+
+export interface ApiSessionOptions {
+  /** Cookies come from this storage-state file or object; the client owns its request context */
+  storageState?: ApiStorageState;
+  /** Share this browser context's cookie jar (`context.request`); the client never disposes it */
+  browserContext?: BrowserContext;
+  /**
+   * Copy a cookie into a request header on every call (default: `XSRF-TOKEN` into
+   * `X-XSRF-TOKEN`, as Angular does); `false` to disable.
+   */
+  xsrf?: false | { cookieName?: string; headerName?: string };
+}
 
 export interface ApiRequestOptions<TBody = unknown> {
   headers?: Record<string, string>;
   data?: TBody;
   form?: Record<string, string>;
+  /** multipart/form-data fields; files may come from a path, Buffer or stream */
+  multipart?: Record<string, ApiMultipartValue>;
   query?: Record<string, QueryParamValue>;
   timeoutMs?: number;
   throwOnError?: boolean;
-  responseType?: "auto" | "json" | "text";
+  /**
+   * `buffer` returns `data` as a Buffer and `stream` as a Readable (Playwright buffers the
+   * body, the stream is for piping). Binary bodies are logged as size, content type and sha256.
+   */
+  responseType?: "auto" | "json" | "text" | "buffer" | "stream";
   correlationId?: string;
+  /** Per-request override merged over the client retry policy; `false` disables retries */
+  retry?: ApiRetryPolicy | false;
+  /** Override the client auth provider; `false` sends the request without provider headers */
+  auth?: AuthProvider | false;
+  /** Validate successful response bodies; failures throw ApiSchemaError */
+  schema?: ResponseSchema;
+  /**
+   * Inspect a body and return an error to treat the response as failed, e.g. a GraphQL `errors`
+   * array on a 200. The error goes through `onError` and counts as a breaker failure. Error
+   * statuses are inspected too, so the returned error replaces the plain `ApiClientError`.
+   */
+  detectError?: (data: unknown, logEntry: ApiLogEntry) => ApiClientError | undefined;
+  /** Label recorded on the log entry and message, e.g. a GraphQL operation name */
+  operation?: string;
+  /** Per-request cache control for GETs; `false` bypasses the client cache */
+  cache?: false | { ttlMs?: number };
+}
+
+export interface ApiPaginateOptions<TBody = unknown> extends ApiRequestOptions<TBody> {
+  /** Stop after yielding this many items (default: 10000) */
+  maxItems?: number;
+  /** Stop after fetching this many pages (default: 1000) */
+  maxPages?: number;
+}
+
+/**
+ * How requests map to circuit breakers:
+ * - `client`: one breaker keyed by the client `name`
+ * - `host`: one per host, e.g. `ccd-data-store-api.aat.platform.hmcts.net`
+ * - `endpoint`: one per host and path template, with numeric, UUID and long hex segments
+ *   replaced by `:id` (`/cases/1234567890123456/events` -> `/cases/:id/events`)
+ * - a function returning the key for a request
+ */
+export type ApiCircuitBreakerKey =
+  | "client"
+  | "host"
+  | "endpoint"
+  | ((request: { method: HttpMethod; url: string; path: string }) => string);
+
+export interface ApiCircuitBreakerMetrics extends CircuitBreakerMetrics {
+  /** Metrics per key when breakers are keyed by host, endpoint or a function */
+  breakers?: Record<string, CircuitBreakerMetrics>;
 }
 
 export interface ApiResponsePayload<TResponse = unknown> {
@@ -77,10 +317,24 @@ export interface ApiLogEntry {
   timestamp: string;
   durationMs: number;
   correlationId?: string;
+  attempt?: number;
+  operation?: string;
+  /** Time spent waiting for the rate limiter before the request was sent */
+  queueWaitMs?: number;
+  /** Set for cacheable GETs when the client cache is enabled */
+  cache?: ApiCacheStatus;
+  /** Trace and span of the attempt when tracing is enabled */
+  traceId?: string;
+  spanId?: string;
+  schemaValidation?: {
+    valid: boolean;
+    issues?: SchemaIssue[];
+  };
   request: {
     headers?: Record<string, string>;
     data?: unknown;
     form?: Record<string, string>;
+    multipart?: Record<string, unknown>;
     query?: Record<string, QueryParamValue>;
   };
   response: {
@@ -126,6 +380,27 @@ export class ApiClientError extends Error {
   }
 }
 
+/** Thrown when a successful response body does not satisfy the request `schema` */
+export class ApiSchemaError extends ApiClientError {
+  public readonly issues: SchemaIssue[];
+
+  constructor(message: string, status: number, logEntry: ApiLogEntry, issues: SchemaIssue[], meta?: {
+    endpointPath?: string;
+    attempt?: number;
+    elapsedMs?: number;
+    correlationId?: string;
+  }) {
+    super(message, status, logEntry, meta);
+    this.name = "ApiSchemaError";
+    this.issues = issues;
+  }
+
+  /** Locations of the failing fields, e.g. `$.case_data.dob` */
+  public get paths(): string[] {
+    return this.issues.map((issue) => issue.path);
+  }
+}
+
 /**
  * Lightweight HTTP client wrapper around Playwright's APIRequestContext.
  * Provides redacted structured logging, correlation IDs and optional raw body capture.
@@ -141,14 +416,56 @@ export class ApiClient {
   private readonly globalCorrelationId: string | undefined;
   private readonly onResponse: ((entry: ApiLogEntry) => void) | undefined;
   private readonly onError: ((error: ApiClientError) => void) | undefined;
-  private readonly breaker: CircuitBreaker | undefined;
+  private readonly circuitBreakers: ResolvedCircuitBreakers | undefined;
+  private readonly rateLimiter: RateLimiter | undefined;
+  private readonly cache: ResolvedCacheOptions | undefined;
+  private readonly retryPolicy: ApiRetryPolicy;
+  private readonly interceptors: ApiInterceptor[];
+  private readonly auth: AuthProvider | undefined;
+  private readonly xsrf: { cookieName: string; headerName: string } | undefined;
+  private readonly ownsContext: boolean;
+  private readonly tracing: Required<ApiTracingOptions> | undefined;
   private contextPromise: Promise<APIRequestContext> | undefined;
 
+  /**
+   * Client that sends the cookies saved in a storage-state file (or object) and mirrors
+   * `XSRF-TOKEN` into `X-XSRF-TOKEN`.
+   *
+   * @example
+   * ```typescript
+   * const xui = ApiClient.fromStorageState(".sessions/caseworker.json", { baseUrl: process.env.MANAGE_CASES_URL });
+   * await xui.get("/data/internal/cases/1234567890123456");
+   * ```
+   */
+  public static fromStorageState(storageState: ApiStorageState, options?: ApiClientOptions): ApiClient {
+    return new ApiClient({ ...options, session: { ...options?.session, storageState } });
+  }
+
+  /** Client sharing a browser context's cookies, so API calls act as the signed-in user */
+  public static fromBrowserContext(browserContext: BrowserContext, options?: ApiClientOptions): ApiClient {
+    return new ApiClient({ ...options, session: { ...options?.session, browserContext } });
+  }
+
   constructor(options?: ApiClientOptions) {
+    const session = options?.session;
+    if (session && (session.storageState === undefined) === (session.browserContext === undefined)) {
+      throw new Error("session needs exactly one of storageState or browserContext");
+    }
     this.baseUrl = options?.baseUrl;
     this.defaultHeaders = options?.defaultHeaders ?? {};
     this.requestFactory =
-      options?.requestFactory ?? (() => request.newContext());
+      options?.requestFactory ??
+      (session?.browserContext
+        ? async () => (session.browserContext as BrowserContext).request
+        : () => request.newContext(session?.storageState ? { storageState: session.storageState } : {}));
+    this.ownsContext = options?.requestFactory !== undefined || session?.browserContext === undefined;
+    this.xsrf =
+      session && session.xsrf !== false
+        ? {
+            cookieName: session.xsrf?.cookieName ?? "XSRF-TOKEN",
+            headerName: session.xsrf?.headerName ?? "X-XSRF-TOKEN",
+          }
+        : undefined;
     this.name = options?.name ?? "api-client";
     this.logger =
       options?.logger ??
@@ -164,14 +481,7 @@ export class ApiClient {
         }
         return createLogger(loggerOpts);
       })();
-    const redactionOpts: { enabled?: boolean; patterns?: RedactPattern[] } = {};
-    if (options?.redaction?.enabled !== undefined) {
-      redactionOpts.enabled = options.redaction.enabled;
-    }
-    if (options?.redaction?.patterns !== undefined) {
-      redactionOpts.patterns = options.redaction.patterns;
-    }
-    this.redactionState = buildRedactionState(redactionOpts);
+    this.redactionState = buildRedactionState(options?.redaction);
     const debugBodies =
       process.env.PLAYWRIGHT_DEBUG_API === "1" ||
       process.env.PLAYWRIGHT_DEBUG_API?.toLowerCase() === "true";
@@ -198,20 +508,61 @@ export class ApiClient {
     this.globalCorrelationId = options?.correlationId;
     this.onResponse = options?.onResponse;
     this.onError = options?.onError;
-    this.breaker = options?.circuitBreaker?.enabled
-      ? new CircuitBreaker(options.circuitBreaker.options)
+    this.circuitBreakers = options?.circuitBreaker?.enabled
+      ? this.resolveCircuitBreakers(options.circuitBreaker)
+      : undefined;
+    this.rateLimiter =
+      options?.rateLimit instanceof RateLimiter || options?.rateLimit === undefined
+        ? options?.rateLimit
+        : new RateLimiter(options.rateLimit);
+    this.cache = options?.cache ? resolveCacheOptions(options.cache) : undefined;
+    this.retryPolicy = options?.retry ?? {};
+    this.interceptors = [...(options?.interceptors ?? [])];
+    this.auth = options?.auth;
+    this.tracing = options?.tracing
+      ? { tracer: options.tracing.tracer, propagate: options.tracing.propagate ?? true }
       : undefined;
   }
 
-  /** Expose circuit breaker metrics (undefined if breaker disabled) */
-  public getCircuitBreakerMetrics(): CircuitBreakerMetrics | undefined {
-    return this.breaker?.getMetrics();
+  /** Append an interceptor; interceptors run in registration order */
+  public use(interceptor: ApiInterceptor): this {
+    this.interceptors.push(interceptor);
+    return this;
+  }
+
+  /**
+   * Expose circuit breaker metrics (undefined if breaker disabled). With keyed breakers the
+   * top-level fields describe the worst breaker and `breakers` holds every key this client used.
+   */
+  public getCircuitBreakerMetrics(): ApiCircuitBreakerMetrics | undefined {
+    const breakers = this.circuitBreakers;
+    if (!breakers) return undefined;
+    if (breakers.keyBy === "client") {
+      return breakers.registry.get(this.name, breakers.options).getMetrics();
+    }
+    const aggregate = breakers.registry.getMetrics([...breakers.keys]);
+    const worst = Object.values(aggregate.breakers).sort(compareBreakerMetrics)[0];
+    return {
+      ...(worst ?? new CircuitBreaker({ ...breakers.options }).getMetrics()),
+      breakers: aggregate.breakers,
+    };
+  }
+
+  /** Expose rate limiter queue metrics (undefined if no rate limit configured) */
+  public getRateLimiterMetrics(): RateLimiterMetrics | undefined {
+    return this.rateLimiter?.getMetrics();
+  }
+
+  /** Remove every entry from the response cache store */
+  public async clearCache(): Promise<void> {
+    await this.cache?.store.clear();
   }
 
   public async dispose(): Promise<void> {
+    this.circuitBreakers?.unsubscribe();
     if (this.contextPromise) {
       const context = await this.contextPromise;
-      await context.dispose();
+      if (this.ownsContext) await context.dispose();
       this.contextPromise = undefined;
     }
   }
@@ -256,62 +607,525 @@ export class ApiClient {
     return this.performRequest<T>("DELETE", path, options);
   }
 
-  /** Core request performer handling logging, redaction and error conversion */
+  /**
+   * Iterate the items of a paged endpoint. Each page is a normal request (retries, auth,
+   * interceptors apply) and produces its own ApiLogEntry.
+   *
+   * @example
+   * ```typescript
+   * for await (const task of client.paginate("GET", "/task", pageSizeStrategy({ itemsPath: "tasks" }))) {
+   *   // ...
+   * }
+   * ```
+   */
+  public async *paginate<TItem = unknown, TPage = unknown>(
+    method: HttpMethod,
+    path: string,
+    strategy: PaginationStrategy<TItem, TPage>,
+    options?: ApiPaginateOptions
+  ): AsyncGenerator<TItem, void, undefined> {
+    const maxItems = options?.maxItems ?? DEFAULT_PAGINATE_MAX_ITEMS;
+    const maxPages = options?.maxPages ?? DEFAULT_PAGINATE_MAX_PAGES;
+    const initial: PageRequest = {};
+    if (options?.query !== undefined) initial.query = options.query;
+    if (options?.data !== undefined) initial.data = options.data;
+
+    let pageRequest: PageRequest | undefined = strategy.first(initial);
+    let yielded = 0;
+    for (let pageIndex = 0; pageRequest; pageIndex++) {
+      if (pageIndex >= maxPages) {
+        this.logger.warn(`Pagination stopped at maxPages (${maxPages})`, { path });
+        return;
+      }
+      const pageOptions: ApiRequestOptions = { ...options };
+      delete pageOptions.query;
+      delete pageOptions.data;
+      if (pageRequest.query !== undefined) pageOptions.query = pageRequest.query;
+      if (pageRequest.data !== undefined) pageOptions.data = pageRequest.data;
+
+      const response = await this.performRequest<TPage>(
+        method,
+        pageRequest.path ?? path,
+        pageOptions
+      );
+      const items = strategy.items(response);
+      this.logger.debug(`Pagination page ${pageIndex + 1}: ${items.length} items`, {
+        path,
+        correlationId: response.logEntry.correlationId,
+      });
+      for (const item of items) {
+        if (yielded >= maxItems) {
+          this.logger.warn(`Pagination stopped at maxItems (${maxItems})`, { path });
+          return;
+        }
+        yielded++;
+        yield item;
+      }
+      pageRequest = strategy.next(response, pageRequest, {
+        pageIndex,
+        pageItemCount: items.length,
+      });
+      if (pageRequest && yielded >= maxItems) {
+        this.logger.warn(`Pagination stopped at maxItems (${maxItems})`, { path });
+        return;
+      }
+    }
+  }
+
+  /** Core request performer applying the retry policy around each attempt */
   private async performRequest<T>(
     method: HttpMethod,
     path: string,
     options?: ApiRequestOptions
   ): Promise<ApiResponsePayload<T>> {
-    this.checkCircuitBreaker(method, path);
-    
-    const context = await this.getContext();
-    const requestHeaders = {
-      ...this.defaultHeaders,
-      ...options?.headers,
+    const policy = this.resolveRetryPolicy(options?.retry);
+    const retryable = policy.attempts > 1 && this.isRetryableMethod(method, policy);
+    if (options?.multipart) {
+      // Read files once so streams can be replayed on retry
+      options = { ...options, multipart: await resolveMultipart(options.multipart) };
+    }
+    const start = Date.now();
+
+    for (let attempt = 1; ; attempt++) {
+      this.checkCircuitBreaker(method, path);
+      policy.budget?.recordCall();
+      let outcome:
+        | { payload: ApiResponsePayload<T> }
+        | { error: ApiClientError };
+      try {
+        outcome = {
+          payload: await this.performAuthorisedAttempt<T>(method, path, options, attempt),
+        };
+      } catch (error) {
+        if (!(error instanceof ApiClientError)) throw error;
+        outcome = { error };
+      }
+
+      const failed = "error" in outcome || !outcome.payload.ok;
+      const status = "error" in outcome ? outcome.error.status : outcome.payload.status;
+      const remaining = policy.maxElapsedMs - (Date.now() - start);
+      let shouldRetry =
+        failed &&
+        retryable &&
+        attempt < policy.attempts &&
+        remaining > 0 &&
+        (status === 0 || policy.retryableStatuses.includes(status));
+      if (shouldRetry && policy.budget && !policy.budget.tryAcquireRetry()) {
+        this.logger.warn(`${method} ${sanitiseUrl(this.buildUrl(path), this.redactionState)} -> retry budget exhausted, not retrying`, {
+          attempt,
+          status,
+        });
+        shouldRetry = false;
+      }
+
+      if (!shouldRetry) {
+        if ("error" in outcome) {
+          this.onError?.(outcome.error);
+          throw outcome.error;
+        }
+        return outcome.payload;
+      }
+
+      const retryAfterMs = parseRetryAfterMs(
+        "error" in outcome
+          ? outcome.error
+          : { retryAfterMs: parseRetryAfter(outcome.payload.headers["retry-after"]) }
+      );
+      const delay = Math.min(
+        computeRetryDelay(attempt - 1, policy.baseMs, policy.maxMs, retryAfterMs),
+        remaining
+      );
+      this.logger.warn(`${method} ${sanitiseUrl(this.buildUrl(path), this.redactionState)} -> retrying`, {
+        attempt,
+        status,
+        delayMs: Math.round(delay),
+      });
+      await new Promise((r) => setTimeout(r, delay));
+    }
+  }
+
+  /** Merge the client policy with a per-request override and apply defaults */
+  private resolveRetryPolicy(
+    override: ApiRequestOptions["retry"]
+  ): ResolvedRetryPolicy {
+    const merged: ApiRetryPolicy =
+      override === false
+        ? { ...this.retryPolicy, attempts: 1 }
+        : { ...this.retryPolicy, ...override };
+    const resolved: ResolvedRetryPolicy = {
+      attempts: merged.attempts ?? 1,
+      baseMs: merged.baseMs ?? DEFAULT_RETRY_BASE_MS,
+      maxMs: merged.maxMs ?? DEFAULT_RETRY_MAX_MS,
+      maxElapsedMs: merged.maxElapsedMs ?? DEFAULT_RETRY_MAX_ELAPSED_MS,
+      retryableStatuses: merged.retryableStatuses ?? DEFAULT_RETRYABLE_STATUSES,
+      retryableMethods: merged.retryableMethods ?? IDEMPOTENT_METHODS,
+      retryNonIdempotent: merged.retryNonIdempotent ?? false,
+      budget: merged.budget,
     };
+    if (resolved.attempts < 1) {
+      throw new Error(`retry attempts must be >= 1, got ${resolved.attempts}`);
+    }
+    if (resolved.baseMs < 0 || resolved.maxMs < 0 || resolved.maxElapsedMs <= 0) {
+      throw new Error("retry delay parameters must be non-negative (maxElapsedMs must be > 0)");
+    }
+    return resolved;
+  }
 
-    const url = this.buildUrl(path);
-    const correlationId =
-      options?.correlationId ?? this.globalCorrelationId ?? randomUUID();
-    const startTime = Date.now();
+  private isRetryableMethod(method: HttpMethod, policy: ResolvedRetryPolicy): boolean {
+    return policy.retryNonIdempotent || policy.retryableMethods.includes(method);
+  }
+
+  /** Run an attempt with provider auth, refreshing credentials and replaying once on 401 */
+  private async performAuthorisedAttempt<T>(
+    method: HttpMethod,
+    path: string,
+    options: ApiRequestOptions | undefined,
+    attempt: number
+  ): Promise<ApiResponsePayload<T>> {
+    const auth = options?.auth === false ? undefined : options?.auth ?? this.auth;
+    if (!auth) {
+      return this.performAttempt<T>(method, path, options, attempt);
+    }
+    try {
+      const payload = await this.performAttempt<T>(method, path, options, attempt, auth);
+      if (payload.status !== 401) return payload;
+    } catch (error) {
+      if (!(error instanceof ApiClientError) || error.status !== 401) throw error;
+    }
+    this.logger.info(`${method} ${sanitiseUrl(this.buildUrl(path), this.redactionState)} -> 401, refreshing credentials`, {
+      attempt,
+    });
+    auth.invalidate();
+    return this.performAttempt<T>(method, path, options, attempt, auth);
+  }
+
+  /** Single attempt: run interceptors, fetch, then log and convert errors */
+  private async performAttempt<T>(
+    method: HttpMethod,
+    path: string,
+    options: ApiRequestOptions | undefined,
+    attempt: number,
+    auth?: AuthProvider
+  ): Promise<ApiResponsePayload<T>> {
+    const request = this.createInterceptedRequest(method, path, options, attempt);
+    if (auth) {
+      applyMissingHeaders(request.headers, await auth.getHeaders());
+    }
+    if (this.xsrf) {
+      applyMissingHeaders(request.headers, await this.xsrfHeader(request.url));
+    }
+    const span = this.startRequestSpan(request, options);
+    if (!span) {
+      return this.sendAttempt<T>(request, path, options);
+    }
+    try {
+      return await this.sendAttempt<T>(request, path, options, span);
+    } catch (error) {
+      span.recordException(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Run beforeRequest interceptors, then serve from cache or wait for the rate limiter and
+   * dispatch. The cache is keyed on the request as interceptors left it, so headers they add
+   * (auth, tenant) take part in `varyHeaders`.
+   */
+  private async sendAttempt<T>(
+    request: ApiInterceptedRequest,
+    path: string,
+    options: ApiRequestOptions | undefined,
+    span?: TraceSpan
+  ): Promise<ApiResponsePayload<T>> {
+    const attemptContext: AttemptContext = { startTime: Date.now(), queueWaitMs: undefined, span };
+    let slot: RateLimiterSlot | undefined;
+    try {
+      for (const interceptor of this.interceptors) {
+        const synthetic = await interceptor.beforeRequest?.(request);
+        if (synthetic) return await this.completeAttempt<T>(request, synthetic, path, options, attemptContext);
+      }
+
+      const cache = this.cacheFor(request, options);
+      const cached = cache ? await cache.store.get(cache.key) : undefined;
+      if (cached && cached.expiresAt > Date.now()) {
+        const hit: AttemptContext = { startTime: Date.now(), queueWaitMs: undefined, cache: "hit", span };
+        return await this.completeAttempt<T>(request, fromCachedResponse(cached), path, options, hit);
+      }
+      if (cached && cache?.revalidate) {
+        const validators: Record<string, string> = {};
+        if (cached.etag) validators["If-None-Match"] = cached.etag;
+        if (cached.lastModified) validators["If-Modified-Since"] = cached.lastModified;
+        applyMissingHeaders(request.headers, validators);
+      }
+
+      slot = await this.rateLimiter?.acquire();
+      attemptContext.startTime = Date.now();
+      attemptContext.queueWaitMs = slot?.waitedMs;
+      let response = await this.dispatch(request, path, options, attemptContext);
+      if (cache) {
+        response = await this.updateCache(cache, cached, response, attemptContext);
+      }
+      return await this.completeAttempt<T>(request, response, path, options, attemptContext);
+    } catch (error) {
+      if (!(error instanceof ApiClientError)) throw error;
+      const recovered = await this.runErrorInterceptors(error, request);
+      if (!recovered) throw error;
+      return this.completeAttempt<T>(request, recovered, path, options, attemptContext);
+    } finally {
+      slot?.release();
+    }
+  }
 
-    const requestOptions = this.buildRequestOptions(method, requestHeaders, options);
-    const response = await this.safeFetch(context, url, requestOptions, {
+  /**
+   * Client span for one attempt. A valid `traceparent` passed in the request headers becomes
+   * the span's parent and is replaced by the span's own, so the service continues this trace.
+   */
+  private startRequestSpan(
+    request: ApiInterceptedRequest,
+    options: ApiRequestOptions | undefined
+  ): TraceSpan | undefined {
+    if (!this.tracing) return undefined;
+    const headerName = Object.keys(request.headers).find((name) => name.toLowerCase() === "traceparent");
+    const incoming = headerName ? request.headers[headerName] : undefined;
+    const url = new URL(request.url);
+    const span = this.tracing.tracer.startSpan(`${request.method} ${toPathTemplate(url.pathname)}`, {
+      kind: "client",
+      ...(incoming && parseTraceparent(incoming) ? { parent: incoming } : {}),
+      attributes: {
+        "http.request.method": request.method,
+        "url.full": sanitiseUrl(request.url, this.redactionState),
+        "server.address": url.hostname,
+        "api.client": this.name,
+        "api.correlation_id": request.correlationId,
+      },
+    });
+    if (url.port) span.setAttribute("server.port", Number(url.port));
+    if (request.attempt > 1) span.setAttribute("http.request.resend_count", request.attempt - 1);
+    if (options?.operation !== undefined) span.setAttribute("api.operation", options.operation);
+    if (this.tracing.propagate) {
+      if (headerName) delete request.headers[headerName];
+      request.headers.traceparent = span.traceparent;
+    }
+    return span;
+  }
+
+  /** Session XSRF header read from the current cookie jar, from a cookie matching the request host and path */
+  private async xsrfHeader(url: string): Promise<Record<string, string>> {
+    if (!this.xsrf) return {};
+    const { cookieName, headerName } = this.xsrf;
+    const { cookies } = await (await this.getContext()).storageState();
+    const { hostname: host, pathname } = new URL(url);
+    // Only a cookie the browser would send to this URL; never another host's token
+    const cookie = cookies
+      .filter((candidate) => {
+        if (candidate.name !== cookieName) return false;
+        const domain = candidate.domain.replace(/^\./, "");
+        const cookiePath = candidate.path || "/";
+        return (
+          (host === domain || host.endsWith(`.${domain}`)) &&
+          (pathname === cookiePath ||
+            pathname.startsWith(cookiePath.endsWith("/") ? cookiePath : `${cookiePath}/`))
+        );
+      })
+      .sort((a, b) => (b.path || "/").length - (a.path || "/").length)[0];
+    if (!cookie) return {};
+    try {
+      return { [headerName]: decodeURIComponent(cookie.value) };
+    } catch {
+      return { [headerName]: cookie.value };
+    }
+  }
+
+  /** Cache settings and key for this request, or undefined when it is not cacheable */
+  private cacheFor(
+    request: ApiInterceptedRequest,
+    options: ApiRequestOptions | undefined
+  ): (ResolvedCacheOptions & { key: string }) | undefined {
+    if (!this.cache || request.method !== "GET" || options?.cache === false) return undefined;
+    if (options?.responseType === "buffer" || options?.responseType === "stream") return undefined;
+    const key = buildCacheKey(
+      request.method,
+      request.url,
+      request.query,
+      request.headers,
+      this.cache.varyHeaders
+    );
+    const ttlMs = options?.cache?.ttlMs ?? this.cache.ttlMs;
+    return { ...this.cache, ttlMs, key };
+  }
+
+  /** Store fresh 2xx responses and swap a 304 for the revalidated cached copy */
+  private async updateCache(
+    cache: ResolvedCacheOptions & { key: string },
+    cached: CachedResponse | undefined,
+    response: ApiInterceptedResponse,
+    attemptContext: AttemptContext
+  ): Promise<ApiInterceptedResponse> {
+    const now = Date.now();
+    if (response.status === 304 && cached) {
+      attemptContext.cache = "revalidated";
+      await cache.store.set(cache.key, { ...cached, storedAt: now, expiresAt: now + cache.ttlMs });
+      return fromCachedResponse(cached);
+    }
+    attemptContext.cache = "miss";
+    const cacheControl = findHeader(response.headers, "cache-control") ?? "";
+    const storable =
+      response.status >= 200 &&
+      response.status < 300 &&
+      response.body !== undefined &&
+      !/no-store/i.test(cacheControl);
+    if (storable) {
+      const entry: CachedResponse = {
+        key: cache.key,
+        status: response.status,
+        headers: { ...response.headers },
+        storedAt: now,
+        expiresAt: now + cache.ttlMs,
+      };
+      if (response.body !== undefined) entry.body = response.body;
+      const etag = findHeader(response.headers, "etag");
+      const lastModified = findHeader(response.headers, "last-modified");
+      if (etag) entry.etag = etag;
+      if (lastModified) entry.lastModified = lastModified;
+      await cache.store.set(cache.key, entry);
+    }
+    return response;
+  }
+
+  /** Build the mutable request handed to interceptors */
+  private createInterceptedRequest(
+    method: HttpMethod,
+    path: string,
+    options: ApiRequestOptions | undefined,
+    attempt: number
+  ): ApiInterceptedRequest {
+    const request: ApiInterceptedRequest = {
       method,
-      correlationId,
+      url: this.buildUrl(path),
+      headers: {
+        ...this.defaultHeaders,
+        ...options?.headers,
+      },
+      correlationId:
+        options?.correlationId ?? this.globalCorrelationId ?? randomUUID(),
+      attempt,
+    };
+    if (options?.data !== undefined) request.data = options.data;
+    if (options?.form !== undefined) request.form = { ...options.form };
+    if (options?.multipart !== undefined) request.multipart = { ...options.multipart };
+    if (options?.query !== undefined) request.query = { ...options.query };
+    return request;
+  }
+
+  /** Fetch the request and read its body */
+  private async dispatch(
+    request: ApiInterceptedRequest,
+    path: string,
+    options: ApiRequestOptions | undefined,
+    attemptContext: AttemptContext
+  ): Promise<ApiInterceptedResponse> {
+    const context = await this.getContext();
+    const requestOptions = this.buildRequestOptions(request, options);
+    const response = await this.safeFetch(context, request.url, requestOptions, {
+      method: request.method,
+      correlationId: request.correlationId,
       path,
-      startTime,
+      attemptContext,
+      attempt: request.attempt,
     });
+    const intercepted: ApiInterceptedResponse = {
+      status: response.status(),
+      headers: response.headers(),
+    };
+    if (isBinaryResponseType(options?.responseType)) {
+      const buffer = await safeReadBuffer(response);
+      if (buffer !== undefined) intercepted.buffer = buffer;
+      return intercepted;
+    }
+    const rawBody = await safeReadBody(response);
+    if (rawBody !== undefined) intercepted.body = rawBody;
+    return intercepted;
+  }
+
+  /** Give onError interceptors a chance to recover with a replacement response */
+  private async runErrorInterceptors(
+    error: ApiClientError,
+    request: ApiInterceptedRequest
+  ): Promise<ApiInterceptedResponse | undefined> {
+    for (const interceptor of this.interceptors) {
+      const recovered = await interceptor.onError?.(error, request);
+      if (recovered) return recovered;
+    }
+    return undefined;
+  }
+
+  /** Apply afterResponse interceptors, then log, notify and convert non-2xx into errors */
+  private async completeAttempt<T>(
+    request: ApiInterceptedRequest,
+    initialResponse: ApiInterceptedResponse,
+    path: string,
+    options: ApiRequestOptions | undefined,
+    attemptContext: AttemptContext
+  ): Promise<ApiResponsePayload<T>> {
+    const { startTime, queueWaitMs } = attemptContext;
+    let response = initialResponse;
+    for (const interceptor of this.interceptors) {
+      response = (await interceptor.afterResponse?.(response, request)) ?? response;
+    }
 
     const durationMs = Date.now() - startTime;
-    const status = response.status();
-    const ok = response.ok();
-    const responseHeaders = response.headers();
+    const { status, headers: responseHeaders, body: rawBody } = response;
+    const ok = status >= 200 && status < 300;
+    const { method, correlationId, attempt } = request;
+    if (this.rateLimiter && (status === 429 || status === 503)) {
+      const retryAfterMs = parseRetryAfterMs({
+        retryAfterMs: parseRetryAfter(responseHeaders["retry-after"]),
+      });
+      if (retryAfterMs !== undefined) this.rateLimiter.pause(retryAfterMs);
+    }
+    const binaryBody = isBinaryResponseType(options?.responseType)
+      ? response.buffer ?? (rawBody !== undefined ? Buffer.from(rawBody) : undefined)
+      : undefined;
+    // Error bodies of binary downloads are usually JSON/text, so only successes stay binary
+    const binary = ok && binaryBody !== undefined;
+    let parsedBody = binary
+      ? toBinaryData<T>(binaryBody, options?.responseType)
+      : parseBody<T>(binaryBody?.toString("utf8") ?? rawBody, options?.responseType);
+    const validation =
+      ok && options?.schema && !binary
+        ? validateSchema(options.schema as ResponseSchema<T>, parsedBody)
+        : undefined;
+    if (validation?.valid) {
+      parsedBody = validation.data;
+    }
 
-    const rawBody = await safeReadBody(response);
-    const parsedBody = parseBody<T>(rawBody, options?.responseType);
-    
     const logEntry = this.buildLogEntry({
-      method,
-      url,
+      request,
       status,
       ok,
       startTime,
       durationMs,
-      correlationId,
-      requestHeaders,
       responseHeaders,
-      options,
-      parsedBody,
+      parsedBody: binary
+        ? summariseBinary(binaryBody, findHeader(responseHeaders, "content-type"))
+        : parsedBody,
     });
+    logEntry.attempt = attempt;
+    if (queueWaitMs !== undefined) logEntry.queueWaitMs = queueWaitMs;
+    if (options?.operation !== undefined) logEntry.operation = options.operation;
+    if (attemptContext.cache !== undefined) logEntry.cache = attemptContext.cache;
     if (this.captureRawBodies) {
       const rawReq: NonNullable<ApiLogEntry["rawRequest"]> = {};
-      if (options?.data !== undefined) rawReq.data = options.data;
-      if (options?.form !== undefined) rawReq.form = options.form;
+      if (request.data !== undefined) {
+        rawReq.data = isBinaryValue(request.data) ? summariseBinary(request.data) : request.data;
+      }
+      if (request.form !== undefined) rawReq.form = request.form;
       if (Object.keys(rawReq).length > 0) {
         logEntry.rawRequest = rawReq;
       }
-      if (rawBody !== undefined) {
+      if (rawBody !== undefined && !binary) {
         logEntry.rawResponse = rawBody;
       }
     }
@@ -319,10 +1133,29 @@ export class ApiClient {
     if (!ok) {
       logEntry.error = `Request failed with status ${status}`;
     }
+    if (validation) {
+      logEntry.schemaValidation = validation.valid
+        ? { valid: true }
+        : { valid: false, issues: validation.issues };
+      if (!validation.valid) {
+        logEntry.error = `Response failed schema validation: ${formatIssues(validation.issues)}`;
+      }
+    }
+    const detectedError =
+      (ok || options?.throwOnError !== false) && validation?.valid !== false && !binary
+        ? options?.detectError?.(parsedBody, logEntry)
+        : undefined;
+    if (detectedError) {
+      logEntry.error = detectedError.message;
+    }
+    if (attemptContext.span) {
+      recordSpanOutcome(attemptContext.span, logEntry);
+    }
+    const label = logEntry.operation ? ` (${logEntry.operation})` : "";
 
     this.logger.log({
-      level: ok ? "info" : "error",
-      message: `${method} ${logEntry.url} -> ${status}`,
+      level: ok && validation?.valid !== false && !detectedError ? "info" : "error",
+      message: `${method} ${logEntry.url}${label} -> ${status}`,
       correlationId,
       durationMs,
       apiCall: logEntry,
@@ -330,11 +1163,32 @@ export class ApiClient {
 
     this.onResponse?.(logEntry);
 
+    if (detectedError && ok) {
+      this.breakerFor(method, path)?.onFailure(Date.now(), durationMs);
+    } else if (attemptContext.cache === "hit") {
+      // Served without calling the service, so it says nothing about its health
+      this.breakerFor(method, path)?.releaseTrial();
+    } else {
+      this.recordBreakerOutcome(method, path, status, durationMs);
+    }
+
+    if (detectedError) {
+      throw detectedError;
+    }
+
     if (!ok && options?.throwOnError !== false) {
-      this.handleErrorResponse(status, logEntry, path, durationMs, correlationId, responseHeaders);
+      this.handleErrorResponse(status, logEntry, path, durationMs, correlationId, responseHeaders, attempt);
     }
 
-    this.breaker?.onSuccess();
+    if (validation && !validation.valid) {
+      throw new ApiSchemaError(
+        `Response from ${method} ${path} failed schema validation: ${formatIssues(validation.issues)}`,
+        status,
+        logEntry,
+        validation.issues,
+        { endpointPath: path, attempt, elapsedMs: durationMs, correlationId }
+      );
+    }
 
     const payload: ApiResponsePayload<T> = {
       ok,
@@ -343,7 +1197,7 @@ export class ApiClient {
       logEntry,
       headers: responseHeaders,
     };
-    if (this.captureRawBodies && rawBody !== undefined) {
+    if (this.captureRawBodies && rawBody !== undefined && !binary) {
       payload.rawBody = rawBody;
     }
     return payload;
@@ -351,9 +1205,11 @@ export class ApiClient {
 
   /** Check circuit breaker and throw if open */
   private checkCircuitBreaker(method: HttpMethod, path: string): void {
-    if (this.breaker && !this.breaker.canProceed()) {
+    const breaker = this.breakerFor(method, path);
+    if (breaker && !breaker.canProceed()) {
+      const key = this.circuitBreakers?.keyBy === "client" ? "" : ` (${this.circuitBreakerKey(method, path)})`;
       const err = new ApiClientError(
-        "Circuit open: request blocked",
+        `Circuit open: request blocked${key}`,
         503,
         {
           id: randomUUID(),
@@ -373,28 +1229,95 @@ export class ApiClient {
     }
   }
 
-  /** Build request options from method, headers, and API request options */
+  private resolveCircuitBreakers(
+    config: NonNullable<ApiClientOptions["circuitBreaker"]>
+  ): ResolvedCircuitBreakers {
+    // Validate options up front rather than on the first request
+    new CircuitBreaker(config.options);
+    const resolved: ResolvedCircuitBreakers = {
+      registry: config.registry ?? new CircuitBreakerRegistry(),
+      keyBy: config.keyBy ?? "client",
+      options: config.options,
+      failureStatuses: config.failureStatuses ?? isDefaultBreakerFailure,
+      keys: new Set(),
+      unsubscribe: () => undefined,
+    };
+    const onEvent = config.onEvent;
+    if (onEvent) {
+      const forward = (event: CircuitBreakerRegistryEvent) => {
+        if (resolved.keys.has(event.key)) onEvent(event);
+      };
+      const types = ["open", "half-open", "close", "rejected"] as const;
+      for (const type of types) {
+        resolved.registry.on(type, forward);
+      }
+      resolved.unsubscribe = () => {
+        for (const type of types) resolved.registry.off(type, forward);
+      };
+    }
+    if (resolved.keyBy === "client") {
+      resolved.registry.get(this.name, resolved.options);
+      resolved.keys.add(this.name);
+    }
+    return resolved;
+  }
+
+  private circuitBreakerKey(method: HttpMethod, path: string): string {
+    const keyBy = this.circuitBreakers?.keyBy ?? "client";
+    if (keyBy === "client") return this.name;
+    const url = this.buildUrl(path);
+    if (typeof keyBy === "function") return keyBy({ method, url, path });
+    const parsed = new URL(url);
+    return keyBy === "host" ? parsed.host : `${parsed.host}${toPathTemplate(parsed.pathname)}`;
+  }
+
+  /** Count a response towards the breaker as a failure or success, per `failureStatuses` */
+  private recordBreakerOutcome(method: HttpMethod, path: string, status: number, durationMs: number): void {
+    const breaker = this.breakerFor(method, path);
+    if (!breaker || !this.circuitBreakers) return;
+    const failureStatuses = this.circuitBreakers.failureStatuses;
+    const failed =
+      typeof failureStatuses === "function" ? failureStatuses(status) : failureStatuses.includes(status);
+    if (failed) {
+      breaker.onFailure(Date.now(), durationMs);
+    } else {
+      breaker.onSuccess(durationMs);
+    }
+  }
+
+  /** Breaker guarding this request, created in the registry on first use */
+  private breakerFor(method: HttpMethod, path: string): CircuitBreaker | undefined {
+    const breakers = this.circuitBreakers;
+    if (!breakers) return undefined;
+    const key = this.circuitBreakerKey(method, path);
+    breakers.keys.add(key);
+    return breakers.registry.get(key, breakers.options);
+  }
+
+  /** Build Playwright fetch options from the (possibly intercepted) request */
   private buildRequestOptions(
-    method: HttpMethod,
-    requestHeaders: Record<string, string>,
+    request: ApiInterceptedRequest,
     options?: ApiRequestOptions
   ): Parameters<APIRequestContext["fetch"]>[1] {
     type FetchOptions = Parameters<APIRequestContext["fetch"]>[1];
     const effectiveTimeout = options?.timeoutMs ?? 30_000;
     let requestOptions: FetchOptions = {
-      method,
-      headers: requestHeaders,
+      method: request.method,
+      headers: request.headers,
       timeout: effectiveTimeout,
     };
-    const builtParams = this.buildParams(options?.query);
+    const builtParams = this.buildParams(request.query);
     if (builtParams !== undefined) {
       requestOptions = { ...requestOptions, params: builtParams };
     }
-    if (options?.data !== undefined) {
-      requestOptions = { ...requestOptions, data: options.data };
+    if (request.data !== undefined) {
+      requestOptions = { ...requestOptions, data: request.data };
     }
-    if (options?.form !== undefined) {
-      requestOptions = { ...requestOptions, form: options.form };
+    if (request.form !== undefined) {
+      requestOptions = { ...requestOptions, form: request.form };
+    }
+    if (request.multipart !== undefined) {
+      requestOptions = { ...requestOptions, multipart: toFetchMultipart(request.multipart) };
     }
     return requestOptions;
   }
@@ -406,18 +1329,21 @@ export class ApiClient {
     path: string,
     durationMs: number,
     correlationId: string,
-    responseHeaders: Record<string, string>
+    responseHeaders: Record<string, string>,
+    attempt: number
   ): never {
     const retryAfterMs = parseRetryAfter(responseHeaders["retry-after"]);
     const bodyPreview = buildBodyPreview(logEntry.response.body);
     const errorMeta: {
       bodyPreview?: string;
       endpointPath?: string;
+      attempt?: number;
       elapsedMs?: number;
       correlationId?: string;
       retryAfterMs?: number;
     } = {
       endpointPath: path,
+      attempt,
       elapsedMs: durationMs,
       correlationId,
     };
@@ -433,49 +1359,49 @@ export class ApiClient {
       logEntry,
       errorMeta
     );
-    this.onError?.(err);
-    this.breaker?.onFailure();
     throw err;
   }
 
   /** Build sanitized log entry from request/response data */
-  private buildLogEntry<T>(params: {
-    method: HttpMethod;
-    url: string;
+  private buildLogEntry(params: {
+    request: ApiInterceptedRequest;
     status: number;
     ok: boolean;
     startTime: number;
     durationMs: number;
-    correlationId: string;
-    requestHeaders: Record<string, string>;
     responseHeaders: Record<string, string>;
-    options: ApiRequestOptions | undefined;
-    parsedBody: T;
+    parsedBody: unknown;
   }): ApiLogEntry {
     const sanitisedRequestHeaders = sanitiseHeaders(
-      params.requestHeaders,
-      this.redactionState
+      params.request.headers,
+      this.redactionState,
+      "$.request.headers"
     );
     const sanitisedResponseHeaders = sanitiseHeaders(
       params.responseHeaders,
-      this.redactionState
-    );
-    const sanitisedRequestData = sanitiseValue<unknown>(
-      params.options?.data,
-      this.redactionState
+      this.redactionState,
+      "$.response.headers"
     );
+    const sanitisedRequestData = isBinaryValue(params.request.data)
+      ? summariseBinary(params.request.data, findHeader(params.request.headers, "content-type"))
+      : sanitiseValue<unknown>(params.request.data, this.redactionState, undefined, "$.request.data");
     const sanitisedForm = sanitiseValue<Record<string, string> | undefined>(
-      params.options?.form,
-      this.redactionState
+      params.request.form,
+      this.redactionState,
+      undefined,
+      "$.request.form"
     );
     const sanitisedQuery = sanitiseValue<Record<string, QueryParamValue> | undefined>(
-      params.options?.query,
-      this.redactionState
+      params.request.query,
+      this.redactionState,
+      undefined,
+      "$.request.query"
     );
     const sanitisedResponseBody: unknown = sanitiseValue(
       params.parsedBody,
       this.redactionState,
-      "responseBody"
+      "responseBody",
+      "$.response.body"
     );
 
     const requestLog: ApiLogEntry["request"] = {};
@@ -488,6 +1414,9 @@ export class ApiClient {
     if (sanitisedForm !== undefined) {
       requestLog.form = sanitisedForm;
     }
+    if (params.request.multipart !== undefined) {
+      requestLog.multipart = summariseMultipart(params.request.multipart, this.redactionState);
+    }
     if (sanitisedQuery !== undefined) {
       requestLog.query = sanitisedQuery;
     }
@@ -503,13 +1432,13 @@ export class ApiClient {
     return {
       id: randomUUID(),
       name: this.name,
-      method: params.method,
-      url: sanitiseUrl(params.url, this.redactionState),
+      method: params.request.method,
+      url: sanitiseUrl(params.request.url, this.redactionState, "$.request.query"),
       status: params.status,
       ok: params.ok,
       timestamp: new Date(params.startTime).toISOString(),
       durationMs: params.durationMs,
-      correlationId: params.correlationId,
+      correlationId: params.request.correlationId,
       request: requestLog,
       response: responseLog,
     };
@@ -556,31 +1485,52 @@ export class ApiClient {
     context: APIRequestContext,
     url: string,
     options: Parameters<APIRequestContext["fetch"]>[1],
-    meta: { method: string; correlationId: string; path: string; startTime: number }
+    meta: {
+      method: string;
+      correlationId: string;
+      path: string;
+      attemptContext: AttemptContext;
+      attempt: number;
+    }
   ): Promise<APIResponse> {
     try {
       return await context.fetch(url, options);
     } catch (error) {
-      const durationMs = Date.now() - meta.startTime;
+      if (error instanceof ReplayMissError) {
+        // A missing fixture is a test setup problem: never retried, never a breaker failure
+        this.breakerFor(meta.method as HttpMethod, meta.path)?.releaseTrial();
+        throw error;
+      }
+      const durationMs = Date.now() - meta.attemptContext.startTime;
       const requestLog: ApiLogEntry["request"] = {};
-      if (options?.headers) {
-        requestLog.headers = options.headers as Record<string, string>;
+      const headers = sanitiseHeaders(
+        options?.headers as Record<string, string> | undefined,
+        this.redactionState,
+        "$.request.headers"
+      );
+      if (headers) {
+        requestLog.headers = headers;
       }
+      const loggedUrl = sanitiseUrl(url, this.redactionState, "$.request.query");
       const logEntry: ApiLogEntry = {
         id: randomUUID(),
         name: this.name,
         method: meta.method as HttpMethod,
-        url,
+        url: loggedUrl,
         status: 0,
         ok: false,
         timestamp: new Date().toISOString(),
         durationMs,
         correlationId: meta.correlationId,
+        attempt: meta.attempt,
         request: requestLog,
         response: {},
         error: error instanceof Error ? error.message : String(error),
       };
-      this.logger.error(`${meta.method} ${url} -> fetch error`, {
+      if (meta.attemptContext.queueWaitMs !== undefined) {
+        logEntry.queueWaitMs = meta.attemptContext.queueWaitMs;
+      }
+      this.logger.error(`${meta.method} ${loggedUrl} -> fetch error`, {
         correlationId: meta.correlationId,
         durationMs,
         apiCall: logEntry,
@@ -591,17 +1541,92 @@ export class ApiClient {
         logEntry,
         {
           endpointPath: meta.path,
+          attempt: meta.attempt,
           elapsedMs: durationMs,
           correlationId: meta.correlationId,
         }
       );
-      this.onError?.(err);
-      this.breaker?.onFailure();
+      this.recordBreakerOutcome(meta.method as HttpMethod, meta.path, 0, durationMs);
       throw err;
     }
   }
 }
 
+function resolveCacheOptions(options: ApiCacheOptions): ResolvedCacheOptions {
+  const ttlMs = options.ttlMs ?? 60_000;
+  if (ttlMs < 0) {
+    throw new Error(`cache ttlMs must be non-negative, got ${ttlMs}`);
+  }
+  return {
+    store: options.store ?? new MemoryCacheStore(),
+    ttlMs,
+    revalidate: options.revalidate ?? true,
+    varyHeaders: options.varyHeaders ?? [],
+  };
+}
+
+function isDefaultBreakerFailure(status: number): boolean {
+  return status === 0 || status === 408 || status === 429 || status >= 500;
+}
+
+const BREAKER_STATE_RANK = { open: 0, "half-open": 1, closed: 2 } as const;
+
+function compareBreakerMetrics(a: CircuitBreakerMetrics, b: CircuitBreakerMetrics): number {
+  return BREAKER_STATE_RANK[a.state] - BREAKER_STATE_RANK[b.state] || b.failureCount - a.failureCount;
+}
+
+/** Status and timing attributes from the finished attempt; the log entry carries the ids back */
+function recordSpanOutcome(span: TraceSpan, logEntry: ApiLogEntry): void {
+  logEntry.traceId = span.traceId;
+  logEntry.spanId = span.spanId;
+  span.setAttributes({ "http.response.status_code": logEntry.status, "api.duration_ms": logEntry.durationMs });
+  if (logEntry.queueWaitMs !== undefined) span.setAttribute("api.queue_wait_ms", logEntry.queueWaitMs);
+  if (logEntry.cache !== undefined) span.setAttribute("api.cache", logEntry.cache);
+  if (logEntry.error !== undefined) span.setStatus("error", logEntry.error);
+}
+
+/** Replace id-like path segments (numbers, UUIDs, long hex) with `:id` */
+function toPathTemplate(pathname: string): string {
+  return pathname
+    .split("/")
+    .map((segment) =>
+      /^\d+$/.test(segment) ||
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(segment) ||
+      /^[0-9a-f]{24,}$/i.test(segment)
+        ? ":id"
+        : segment
+    )
+    .join("/");
+}
+
+function fromCachedResponse(cached: CachedResponse): ApiInterceptedResponse {
+  const response: ApiInterceptedResponse = {
+    status: cached.status,
+    headers: { ...cached.headers },
+  };
+  if (cached.body !== undefined) response.body = cached.body;
+  return response;
+}
+
+function formatIssues(issues: SchemaIssue[]): string {
+  const shown = issues.slice(0, 5).map((issue) => `${issue.path} ${issue.message}`);
+  const more = issues.length > shown.length ? ` (+${issues.length - shown.length} more)` : "";
+  return `${shown.join("; ")}${more}`;
+}
+
+/** Copy headers that the caller has not already set (case-insensitive) */
+function applyMissingHeaders(
+  target: Record<string, string>,
+  source: Record<string, string>
+): void {
+  const existing = new Set(Object.keys(target).map((key) => key.toLowerCase()));
+  for (const [key, value] of Object.entries(source)) {
+    if (!existing.has(key.toLowerCase())) {
+      target[key] = value;
+    }
+  }
+}
+
 function buildBodyPreview(body: unknown): string | undefined {
   if (body === undefined) return undefined;
   const raw =
@@ -633,6 +1658,30 @@ async function safeReadBody(response: APIResponse): Promise<string | undefined>
   }
 }
 
+async function safeReadBuffer(response: APIResponse): Promise<Buffer | undefined> {
+  try {
+    return await response.body();
+  } catch {
+    return undefined;
+  }
+}
+
+function isBinaryResponseType(responseType: ApiRequestOptions["responseType"]): boolean {
+  return responseType === "buffer" || responseType === "stream";
+}
+
+function toBinaryData<T>(buffer: Buffer, responseType: ApiRequestOptions["responseType"]): T {
+  return (responseType === "stream" ? Readable.from(buffer) : buffer) as unknown as T;
+}
+
+function findHeader(
+  headers: Record<string, string>,
+  name: string
+): string | undefined {
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === name);
+  return key ? headers[key] : undefined;
+}
+
 function parseBody<T>(
   rawBody: string | undefined,
   responseType: ApiRequestOptions["responseType"] = "auto"
@@ -655,6 +1704,18 @@ function parseBody<T>(
   }
 }
 
+/**
+ * Raw (unredacted) bodies only leave the process when debug mode or a development
+ * environment is explicitly enabled.
+ */
+export function rawBodiesAllowed(): boolean {
+  return (
+    process.env.PLAYWRIGHT_DEBUG_API === "true" ||
+    process.env.PLAYWRIGHT_DEBUG_API === "1" ||
+    process.env.NODE_ENV === "development"
+  );
+}
+
 export interface ApiAttachmentOptions {
   includeRaw?: boolean;
 }
@@ -664,12 +1725,7 @@ export function buildApiAttachment(
   options?: ApiAttachmentOptions
 ): { name: string; body: string; contentType: string } {
   const includeRawRequested = options?.includeRaw ?? false;
-  const allowRawBodies =
-    includeRawRequested &&
-    (process.env.PLAYWRIGHT_DEBUG_API === "true" ||
-      process.env.PLAYWRIGHT_DEBUG_API === "1" ||
-      process.env.NODE_ENV === "development");
-  const includeRaw = includeRawRequested && allowRawBodies;
+  const includeRaw = includeRawRequested && rawBodiesAllowed();
   const payload = {
     ...entry,
     rawRequest: includeRaw ? entry.rawRequest : undefined,
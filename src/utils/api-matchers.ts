@@ -0,0 +1,212 @@
+import {
+  expect,
+  type ExpectMatcherState,
+  type MatcherReturnType,
+} from "@playwright/test";
+import { REDACTED_VALUE } from "../logging/redaction.js";
+import type { ApiLogEntry, ApiResponsePayload } from "./api-client.js";
+import { validateSchema, type ResponseSchema } from "./schema.utils.js";
+
+const BODY_PREVIEW_LIMIT = 2048;
+
+/**
+ * Custom matchers for `ApiResponsePayload`. Failure messages include the redacted
+ * log entry (method, URL, correlation id, body preview) so the failing call is obvious.
+ * Received values are also taken from the redacted log entry, never the raw response.
+ *
+ * @example
+ * ```typescript
+ * import { expect as baseExpect } from "@playwright/test";
+ * import { apiMatchers } from "@hmcts/playwright-common";
+ *
+ * export const expect = baseExpect.extend(apiMatchers);
+ *
+ * const res = await ccd.get("/cases/123");
+ * expect(res).toHaveStatus(200);
+ * expect(res).toMatchJsonSubset({ state: "Submitted" });
+ * ```
+ */
+export const apiMatchers = {
+  toHaveStatus(
+    this: ExpectMatcherState,
+    response: ApiResponsePayload,
+    expected: number | number[]
+  ): MatcherReturnType {
+    assertPayload("toHaveStatus", response);
+    const allowed = Array.isArray(expected) ? expected : [expected];
+    const pass = allowed.includes(response.status);
+    return result(this, "toHaveStatus", pass, response.logEntry, {
+      expected: allowed.join(" | "),
+      received: response.status,
+    });
+  },
+
+  toHaveHeader(
+    this: ExpectMatcherState,
+    response: ApiResponsePayload,
+    name: string,
+    value?: string | RegExp
+  ): MatcherReturnType {
+    assertPayload("toHaveHeader", response);
+    const key = Object.keys(response.headers).find(
+      (header) => header.toLowerCase() === name.toLowerCase()
+    );
+    const actual = key === undefined ? undefined : response.headers[key];
+    const pass =
+      actual !== undefined &&
+      (value === undefined ||
+        (typeof value === "string" ? actual === value : value.test(actual)));
+    // Show the logged (redacted) value so cookies and auth headers stay out of reports
+    const logged = response.logEntry.response.headers ?? {};
+    const loggedKey = Object.keys(logged).find((header) => header.toLowerCase() === name.toLowerCase());
+    const shown = loggedKey === undefined ? REDACTED_VALUE : logged[loggedKey];
+    return result(this, "toHaveHeader", pass, response.logEntry, {
+      expected: value === undefined ? `header "${name}"` : `${name}: ${String(value)}`,
+      received: actual === undefined ? `no "${name}" header` : `${name}: ${shown}`,
+    });
+  },
+
+  toMatchJsonSubset(
+    this: ExpectMatcherState,
+    response: ApiResponsePayload,
+    subset: unknown
+  ): MatcherReturnType {
+    assertPayload("toMatchJsonSubset", response);
+    const mismatch = findSubsetMismatch(response.data, response.logEntry.response.body, subset, "$");
+    return result(this, "toMatchJsonSubset", mismatch === undefined, response.logEntry, {
+      expected: JSON.stringify(subset),
+      received: mismatch ?? "body contains the subset",
+    });
+  },
+
+  toRespondWithin(
+    this: ExpectMatcherState,
+    response: ApiResponsePayload,
+    ms: number
+  ): MatcherReturnType {
+    assertPayload("toRespondWithin", response);
+    const { durationMs } = response.logEntry;
+    return result(this, "toRespondWithin", durationMs <= ms, response.logEntry, {
+      expected: `<= ${ms}ms`,
+      received: `${durationMs}ms`,
+    });
+  },
+
+  toMatchSchema(
+    this: ExpectMatcherState,
+    response: ApiResponsePayload,
+    schema: ResponseSchema
+  ): MatcherReturnType {
+    assertPayload("toMatchSchema", response);
+    const validation = validateSchema(schema, response.data);
+    return result(this, "toMatchSchema", validation.valid, response.logEntry, {
+      expected: "body matching schema",
+      received: validation.valid
+        ? "body matches schema"
+        : validation.issues.map((issue) => `${issue.path} ${issue.message}`).join("; "),
+    });
+  },
+};
+
+/** Playwright `expect` extended with {@link apiMatchers} */
+export const expectApi = expect.extend(apiMatchers);
+
+/** Throw rather than fail, so `.not` cannot turn a wrong receiver into a pass */
+function assertPayload(matcher: string, response: unknown): void {
+  const looksLikePayload =
+    typeof response === "object" &&
+    response !== null &&
+    "status" in response &&
+    "logEntry" in response;
+  if (!looksLikePayload) {
+    throw new Error(`${matcher}: expected an ApiResponsePayload, received ${typeof response}`);
+  }
+}
+
+function result(
+  state: ExpectMatcherState,
+  matcher: string,
+  pass: boolean,
+  entry: ApiLogEntry,
+  detail: { expected: unknown; received: unknown }
+): MatcherReturnType {
+  const hint = `expect(response).${state.isNot ? "not." : ""}${matcher}()`;
+  return {
+    name: matcher,
+    pass,
+    expected: detail.expected,
+    actual: detail.received,
+    message: () =>
+      [
+        hint,
+        "",
+        `Expected: ${state.isNot ? "not " : ""}${String(detail.expected)}`,
+        `Received: ${String(detail.received)}`,
+        "",
+        describeLogEntry(entry),
+      ].join("\n"),
+  };
+}
+
+/** Summarise the (already redacted) log entry for failure messages */
+export function describeLogEntry(entry: ApiLogEntry): string {
+  const lines = [
+    `Request: ${entry.method} ${entry.url}`,
+    `Status: ${entry.status} (${entry.durationMs}ms${entry.attempt ? `, attempt ${entry.attempt}` : ""})`,
+  ];
+  if (entry.correlationId) lines.push(`Correlation id: ${entry.correlationId}`);
+  if (entry.error) lines.push(`Error: ${entry.error}`);
+  const body = entry.response.body;
+  if (body !== undefined) {
+    const text = typeof body === "string" ? body : JSON.stringify(body, null, 2);
+    const preview =
+      text.length > BODY_PREVIEW_LIMIT ? `${text.slice(0, BODY_PREVIEW_LIMIT)}…` : text;
+    lines.push(`Response body:\n${preview}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Return a description of the first place `actual` does not contain `expected`, if any.
+ * `logged` is the same position in the redacted log entry body and supplies the value shown.
+ */
+function findSubsetMismatch(actual: unknown, logged: unknown, expected: unknown, path: string): string | undefined {
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual)) return `${path} is not an array`;
+    if (actual.length !== expected.length) {
+      return `${path} has ${actual.length} items, expected ${expected.length}`;
+    }
+    for (let i = 0; i < expected.length; i++) {
+      const mismatch = findSubsetMismatch(actual[i], loggedChild(logged, i), expected[i], `${path}[${i}]`);
+      if (mismatch) return mismatch;
+    }
+    return undefined;
+  }
+  if (expected !== null && typeof expected === "object") {
+    if (actual === null || typeof actual !== "object" || Array.isArray(actual)) {
+      return `${path} is not an object`;
+    }
+    for (const [key, value] of Object.entries(expected)) {
+      if (!(key in actual)) return `${path}.${key} is missing`;
+      const mismatch = findSubsetMismatch(
+        (actual as Record<string, unknown>)[key],
+        loggedChild(logged, key),
+        value,
+        `${path}.${key}`
+      );
+      if (mismatch) return mismatch;
+    }
+    return undefined;
+  }
+  // Values redacted (or cut) from the log entry are shown as [REDACTED]
+  const shown = logged === undefined && actual !== undefined ? REDACTED_VALUE : logged;
+  return Object.is(actual, expected)
+    ? undefined
+    : `${path} is ${JSON.stringify(shown)}, expected ${JSON.stringify(expected)}`;
+}
+
+function loggedChild(logged: unknown, key: string | number): unknown {
+  return logged !== null && typeof logged === "object"
+    ? (logged as Record<string | number, unknown>)[key]
+    : undefined;
+}
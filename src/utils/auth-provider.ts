@@ -0,0 +1,175 @@
+import type { IdamTokenParams, IdamUtils } from "./idam.utils.js";
+import type { ServiceAuthUtils, ServiceTokenParams } from "./service-auth.utils.js";
+
+/**
+ * Supplies auth headers for ApiClient requests.
+ * `invalidate()` is called when the backend rejects a request with 401 so the
+ * next `getHeaders()` call fetches fresh credentials.
+ */
+export interface AuthProvider {
+  getHeaders(): Promise<Record<string, string>>;
+  invalidate(): void;
+}
+
+export interface TokenCacheOptions {
+  /** Refresh this long before the token expires (default: 60s) */
+  refreshSkewMs?: number;
+  /** Lifetime assumed for tokens without a readable JWT `exp` claim (default: 30 minutes) */
+  fallbackTtlMs?: number;
+}
+
+const DEFAULT_REFRESH_SKEW_MS = 60_000;
+const DEFAULT_FALLBACK_TTL_MS = 30 * 60_000;
+
+/**
+ * Decode the `exp` claim of a JWT without verifying it.
+ *
+ * @returns Expiry as epoch milliseconds, or undefined if the token is not a JWT or has no `exp`
+ */
+export function decodeJwtExpiry(token: string): number | undefined {
+  const segments = token.split(".");
+  if (segments.length !== 3 || !segments[1]) return undefined;
+  try {
+    const payload = JSON.parse(
+      Buffer.from(segments[1], "base64url").toString("utf8")
+    ) as { exp?: unknown };
+    return typeof payload.exp === "number" ? payload.exp * 1000 : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Caches a token until shortly before it expires.
+ * Concurrent callers share a single in-flight fetch.
+ */
+export class TokenCache {
+  private token: string | undefined;
+  private expiresAt = 0;
+  private pending: Promise<string> | undefined;
+  private readonly refreshSkewMs: number;
+  private readonly fallbackTtlMs: number;
+
+  constructor(
+    private readonly fetchToken: () => Promise<string>,
+    options?: TokenCacheOptions
+  ) {
+    this.refreshSkewMs = options?.refreshSkewMs ?? DEFAULT_REFRESH_SKEW_MS;
+    this.fallbackTtlMs = options?.fallbackTtlMs ?? DEFAULT_FALLBACK_TTL_MS;
+    if (this.refreshSkewMs < 0 || this.fallbackTtlMs <= 0) {
+      throw new Error("refreshSkewMs must be non-negative and fallbackTtlMs must be > 0");
+    }
+  }
+
+  public async get(now = Date.now()): Promise<string> {
+    if (this.token && now < this.expiresAt - this.refreshSkewMs) {
+      return this.token;
+    }
+    this.pending ??= this.refresh().finally(() => {
+      this.pending = undefined;
+    });
+    return this.pending;
+  }
+
+  public invalidate(): void {
+    this.token = undefined;
+    this.expiresAt = 0;
+  }
+
+  private async refresh(): Promise<string> {
+    const token = await this.fetchToken();
+    this.token = token;
+    this.expiresAt = decodeJwtExpiry(token) ?? Date.now() + this.fallbackTtlMs;
+    return token;
+  }
+}
+
+export interface TokenAuthProviderOptions extends TokenCacheOptions {
+  fetchToken: () => Promise<string>;
+  /** Header to populate (default depends on the provider) */
+  headerName?: string;
+}
+
+/**
+ * Sends a single header built from a cached, auto-refreshed token.
+ * Subclasses choose the default header name and, if needed, the value format.
+ */
+export abstract class TokenAuthProvider implements AuthProvider {
+  private readonly cache: TokenCache;
+  private readonly headerName: string;
+
+  protected constructor(options: TokenAuthProviderOptions, defaultHeaderName: string) {
+    this.cache = new TokenCache(options.fetchToken, options);
+    this.headerName = options.headerName ?? defaultHeaderName;
+  }
+
+  public async getHeaders(): Promise<Record<string, string>> {
+    return { [this.headerName]: this.formatHeader(await this.cache.get()) };
+  }
+
+  public invalidate(): void {
+    this.cache.invalidate();
+  }
+
+  protected formatHeader(token: string): string {
+    return `Bearer ${token}`;
+  }
+}
+
+/** Sends `Authorization: Bearer <token>` using a cached, auto-refreshed token */
+export class BearerAuthProvider extends TokenAuthProvider {
+  constructor(options: TokenAuthProviderOptions) {
+    super(options, "Authorization");
+  }
+
+  /** Build a provider that fetches IDAM tokens through IdamUtils */
+  public static fromIdam(
+    idam: IdamUtils,
+    params: IdamTokenParams,
+    options?: TokenCacheOptions
+  ): BearerAuthProvider {
+    return new BearerAuthProvider({
+      ...options,
+      fetchToken: () => idam.generateIdamToken(params),
+    });
+  }
+}
+
+/** Sends `ServiceAuthorization: Bearer <token>` using a cached S2S token */
+export class ServiceAuthProvider extends TokenAuthProvider {
+  constructor(options: TokenAuthProviderOptions) {
+    super(options, "ServiceAuthorization");
+  }
+
+  /** Build a provider that leases S2S tokens through ServiceAuthUtils */
+  public static fromServiceAuth(
+    serviceAuth: ServiceAuthUtils,
+    params: ServiceTokenParams,
+    options?: TokenCacheOptions
+  ): ServiceAuthProvider {
+    return new ServiceAuthProvider({
+      ...options,
+      fetchToken: () => serviceAuth.retrieveToken(params),
+    });
+  }
+}
+
+/** Merges headers from several providers, e.g. IDAM bearer + S2S for CCD */
+export class CombinedAuthProvider implements AuthProvider {
+  private readonly providers: AuthProvider[];
+
+  constructor(...providers: AuthProvider[]) {
+    this.providers = providers;
+  }
+
+  public async getHeaders(): Promise<Record<string, string>> {
+    const headers = await Promise.all(this.providers.map((p) => p.getHeaders()));
+    return Object.assign({}, ...headers) as Record<string, string>;
+  }
+
+  public invalidate(): void {
+    for (const provider of this.providers) {
+      provider.invalidate();
+    }
+  }
+}
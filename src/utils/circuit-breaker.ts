@@ -1,11 +1,60 @@
+import { createHash } from "node:crypto";
+import { EventEmitter } from "node:events";
+import fs from "node:fs";
+import path from "node:path";
+
 export interface CircuitBreakerOptions {
-  failureThreshold?: number; // failures to open
+  failureThreshold?: number; // consecutive failures to open
   cooldownMs?: number; // time in open before half-open
   halfOpenMaxAttempts?: number; // trial attempts in half-open
+  /**
+   * Percentage (1-100) of failed calls in the sliding window that opens the circuit.
+   * Setting it switches from consecutive-failure counting to failure-rate mode.
+   */
+  failureRateThreshold?: number;
+  /** Number of most recent calls the failure and slow-call rates are computed over (default: 20) */
+  slidingWindowSize?: number;
+  /** Calls the window must hold before rates are evaluated (default: 10, capped at the window size) */
+  minimumCalls?: number;
+  /** Calls taking at least this long count as slow */
+  slowCallDurationMs?: number;
+  /** Percentage (1-100) of slow calls in the window that opens the circuit (default: 100) */
+  slowCallRateThreshold?: number;
 }
 
 type State = "closed" | "open" | "half-open";
 
+export type CircuitBreakerEventType = "open" | "half-open" | "close" | "rejected";
+
+export type CircuitBreakerEventReason =
+  | "failure-threshold"
+  | "failure-rate"
+  | "slow-call-rate"
+  | "half-open-failure"
+  | "cooldown-elapsed"
+  | "half-open-success"
+  | "circuit-open"
+  | "half-open-trials-exhausted";
+
+/** Emitted on each state transition, and as `rejected` when `canProceed()` refuses a call */
+export interface CircuitBreakerEvent {
+  type: CircuitBreakerEventType;
+  from: State;
+  to: State;
+  reason: CircuitBreakerEventReason;
+  at: number;
+  metrics: CircuitBreakerMetrics;
+}
+
+/** Serialisable breaker state, used to share breakers between workers */
+export interface CircuitBreakerSnapshot {
+  state: State;
+  failures: number;
+  openedAt: number;
+  lastFailureAt: number;
+  trials: number;
+}
+
 export interface CircuitBreakerMetrics {
   state: State;
   failureCount: number;
@@ -15,11 +64,29 @@ export interface CircuitBreakerMetrics {
   openedAt?: number;
   lastFailureAt?: number;
   halfOpenTrialCount?: number;
+  /** Calls currently in the sliding window (failure-rate or slow-call mode only) */
+  windowCalls?: number;
+  /** Failed calls in the window, as a percentage */
+  failureRate?: number;
+  /** Slow calls in the window, as a percentage */
+  slowCallRate?: number;
+}
+
+interface ResolvedCircuitBreakerOptions {
+  failureThreshold: number;
+  cooldownMs: number;
+  halfOpenMaxAttempts: number;
+  failureRateThreshold: number | undefined;
+  slidingWindowSize: number;
+  minimumCalls: number;
+  slowCallDurationMs: number | undefined;
+  slowCallRateThreshold: number;
 }
 
 /**
  * Configurable circuit breaker implementation following the classic three-state model.
- * Prevents cascading failures by opening the circuit after a threshold of consecutive failures.
+ * Prevents cascading failures by opening the circuit after a threshold of consecutive failures,
+ * or, in failure-rate mode, once too many of the last N calls failed or were slow.
  * 
  * **Concurrency**: Safe for Node.js async operations. Trial counter is incremented atomically
  * in `canProceed()` to prevent concurrent requests from exceeding `halfOpenMaxAttempts`.
@@ -54,6 +121,7 @@ export interface CircuitBreakerMetrics {
  * // Monitor circuit state
  * const metrics = breaker.getMetrics();
  * console.log(`Circuit state: ${metrics.state}`);
+ * breaker.on("open", (event) => console.warn(`Circuit opened: ${event.reason}`));
  * ```
  */
 export class CircuitBreaker {
@@ -62,12 +130,17 @@ export class CircuitBreaker {
   private openedAt = 0;
   private trials = 0;
   private lastFailureAt = 0;
-  private readonly opts: Required<CircuitBreakerOptions>;
+  private window: Array<{ failed: boolean; slow: boolean }> = [];
+  private readonly opts: ResolvedCircuitBreakerOptions;
+  private readonly events = new EventEmitter();
 
   constructor(options?: CircuitBreakerOptions) {
     const failureThreshold = options?.failureThreshold ?? 5;
     const cooldownMs = options?.cooldownMs ?? 30000;
     const halfOpenMaxAttempts = options?.halfOpenMaxAttempts ?? 2;
+    const slidingWindowSize = options?.slidingWindowSize ?? 20;
+    const minimumCalls = options?.minimumCalls ?? Math.min(10, slidingWindowSize);
+    const slowCallRateThreshold = options?.slowCallRateThreshold ?? 100;
 
     // Validate parameters
     if (failureThreshold < 1) {
@@ -79,24 +152,68 @@ export class CircuitBreaker {
     if (halfOpenMaxAttempts < 1) {
       throw new Error(`halfOpenMaxAttempts must be >= 1, got ${halfOpenMaxAttempts}`);
     }
+    const rate = options?.failureRateThreshold;
+    if (rate !== undefined && (rate <= 0 || rate > 100)) {
+      throw new Error(`failureRateThreshold must be between 1 and 100, got ${rate}`);
+    }
+    if (slidingWindowSize < 1) {
+      throw new Error(`slidingWindowSize must be >= 1, got ${slidingWindowSize}`);
+    }
+    if (minimumCalls < 1) {
+      throw new Error(`minimumCalls must be >= 1, got ${minimumCalls}`);
+    }
+    const slowMs = options?.slowCallDurationMs;
+    if (slowMs !== undefined && slowMs <= 0) {
+      throw new Error(`slowCallDurationMs must be > 0, got ${slowMs}`);
+    }
+    if (slowCallRateThreshold <= 0 || slowCallRateThreshold > 100) {
+      throw new Error(`slowCallRateThreshold must be between 1 and 100, got ${slowCallRateThreshold}`);
+    }
+
+    this.opts = {
+      failureThreshold,
+      cooldownMs,
+      halfOpenMaxAttempts,
+      failureRateThreshold: rate,
+      slidingWindowSize,
+      minimumCalls: Math.min(minimumCalls, slidingWindowSize),
+      slowCallDurationMs: slowMs,
+      slowCallRateThreshold,
+    };
+  }
+
+  /** Subscribe to state transitions (`open`, `half-open`, `close`) and `rejected` calls */
+  public on(type: CircuitBreakerEventType, listener: (event: CircuitBreakerEvent) => void): this {
+    this.events.on(type, listener);
+    return this;
+  }
 
-    this.opts = { failureThreshold, cooldownMs, halfOpenMaxAttempts };
+  public off(type: CircuitBreakerEventType, listener: (event: CircuitBreakerEvent) => void): this {
+    this.events.off(type, listener);
+    return this;
   }
 
   public canProceed(now = Date.now()): boolean {
+    let allowed: boolean;
     switch (this.state) {
       case "closed":
         return true;
       case "open":
-        return this.handleOpenState(now);
+        allowed = this.handleOpenState(now);
+        break;
       case "half-open":
-        return this.handleHalfOpenState();
+        allowed = this.handleHalfOpenState();
+        break;
+    }
+    if (!allowed) {
+      this.emit("rejected", this.state, this.state === "open" ? "circuit-open" : "half-open-trials-exhausted", now);
     }
+    return allowed;
   }
 
   private handleOpenState(now: number): boolean {
     if (now - this.openedAt >= this.opts.cooldownMs) {
-      this.transitionToHalfOpen();
+      this.transitionToHalfOpen(now);
       return this.handleHalfOpenState(); // Allow trial and increment counter
     }
     return false;
@@ -110,37 +227,125 @@ export class CircuitBreaker {
     return false;
   }
 
-  private transitionToHalfOpen(): void {
+  /** Hand back a half-open trial taken by `canProceed()` for a call that never reached the service */
+  public releaseTrial(): void {
+    if (this.state === "half-open" && this.trials > 0) this.trials--;
+  }
+
+  private transitionToHalfOpen(now: number): void {
     this.state = "half-open";
     this.trials = 0;
+    this.emit("half-open", "open", "cooldown-elapsed", now);
   }
 
-  public onSuccess(): void {
+  /** Record a successful call; pass its duration to enable slow-call detection */
+  public onSuccess(durationMs?: number, now = Date.now()): void {
+    const slow = this.isSlow(durationMs);
     if (this.state === "half-open") {
+      if (slow) {
+        this.trip(now, "slow-call-rate");
+        return;
+      }
       // success in half-open: close the circuit
       this.state = "closed";
       this.failures = 0;
       this.trials = 0;
+      this.window = [];
+      this.emit("close", "half-open", "half-open-success", now);
     } else if (this.state === "closed") {
-      this.failures = 0;
+      if (this.opts.failureRateThreshold === undefined) {
+        this.failures = 0;
+      }
+      this.record(false, slow, now);
     }
   }
 
-  public onFailure(now = Date.now()): void {
+  public onFailure(now = Date.now(), durationMs?: number): void {
     if (this.state === "half-open") {
       // Note: trials already incremented in canProceed()
       // revert to open immediately on failure in half-open
-      this.state = "open";
-      this.openedAt = now;
       this.lastFailureAt = now;
+      this.trip(now, "half-open-failure");
       return;
     }
-    this.failures++;
     this.lastFailureAt = now;
+    if (this.opts.failureRateThreshold !== undefined) {
+      if (this.state === "closed") this.record(true, this.isSlow(durationMs), now);
+      return;
+    }
+    this.failures++;
     if (this.failures >= this.opts.failureThreshold) {
-      this.state = "open";
-      this.openedAt = now;
+      this.trip(now, "failure-threshold");
+      return;
     }
+    this.record(true, this.isSlow(durationMs), now);
+  }
+
+  private isSlow(durationMs: number | undefined): boolean {
+    const threshold = this.opts.slowCallDurationMs;
+    return threshold !== undefined && durationMs !== undefined && durationMs >= threshold;
+  }
+
+  /** Add a call to the sliding window (when a rate mode is on) and open if a rate is exceeded */
+  private record(failed: boolean, slow: boolean, now: number): void {
+    if (this.opts.failureRateThreshold === undefined && this.opts.slowCallDurationMs === undefined) {
+      return;
+    }
+    this.window.push({ failed, slow });
+    if (this.window.length > this.opts.slidingWindowSize) this.window.shift();
+    if (this.opts.failureRateThreshold !== undefined) {
+      this.failures = this.window.filter((call) => call.failed).length;
+    }
+    if (this.window.length < this.opts.minimumCalls) return;
+
+    const rates = this.windowRates();
+    if (this.opts.failureRateThreshold !== undefined && rates.failureRate >= this.opts.failureRateThreshold) {
+      this.trip(now, "failure-rate");
+    } else if (this.opts.slowCallDurationMs !== undefined && rates.slowCallRate >= this.opts.slowCallRateThreshold) {
+      this.trip(now, "slow-call-rate");
+    }
+  }
+
+  private windowRates(): { failureRate: number; slowCallRate: number } {
+    const total = this.window.length || 1;
+    return {
+      failureRate: (this.window.filter((call) => call.failed).length / total) * 100,
+      slowCallRate: (this.window.filter((call) => call.slow).length / total) * 100,
+    };
+  }
+
+  private trip(now: number, reason: CircuitBreakerEventReason): void {
+    const from = this.state;
+    this.state = "open";
+    this.openedAt = now;
+    this.window = [];
+    if (from !== "open") this.emit("open", from, reason, now);
+  }
+
+  private emit(type: CircuitBreakerEventType, from: State, reason: CircuitBreakerEventReason, at: number): void {
+    if (this.events.listenerCount(type) === 0) return;
+    const event: CircuitBreakerEvent = { type, from, to: this.state, reason, at, metrics: this.getMetrics() };
+    this.events.emit(type, event);
+  }
+
+  /** Raw state for persistence; see `CircuitBreakerRegistry` `stateFile` */
+  public getSnapshot(): CircuitBreakerSnapshot {
+    return {
+      state: this.state,
+      failures: this.failures,
+      openedAt: this.openedAt,
+      lastFailureAt: this.lastFailureAt,
+      trials: this.trials,
+    };
+  }
+
+  /** Overwrite the current state with a snapshot taken from another breaker */
+  public restore(snapshot: CircuitBreakerSnapshot): void {
+    this.state = snapshot.state;
+    this.failures = snapshot.failures;
+    this.openedAt = snapshot.openedAt;
+    this.lastFailureAt = snapshot.lastFailureAt;
+    this.trials = snapshot.trials;
   }
 
   /** Snapshot style metrics for telemetry dashboards */
@@ -161,6 +366,210 @@ export class CircuitBreaker {
     if (this.state === "half-open") {
       base.halfOpenTrialCount = this.trials;
     }
+    if (this.opts.failureRateThreshold !== undefined || this.opts.slowCallDurationMs !== undefined) {
+      const rates = this.windowRates();
+      base.windowCalls = this.window.length;
+      base.failureRate = this.window.length ? rates.failureRate : 0;
+      base.slowCallRate = this.window.length ? rates.slowCallRate : 0;
+    }
     return base;
   }
 }
+
+export interface CircuitBreakerRegistryOptions {
+  /** Options for breakers created without their own */
+  defaults?: CircuitBreakerOptions;
+  /**
+   * Where state transitions are written to and read back from, so Playwright workers
+   * (separate processes) see circuits opened by each other. Each breaker key gets its own
+   * file next to it, e.g. `.circuit-breakers.<key hash>.json`, so workers never overwrite
+   * each other's breakers.
+   */
+  stateFile?: string;
+}
+
+/** Breaker event tagged with the registry key of the breaker that emitted it */
+export type CircuitBreakerRegistryEvent = CircuitBreakerEvent & { key: string };
+
+export interface CircuitBreakerRegistryMetrics {
+  /** Worst state across breakers: open, then half-open, then closed */
+  state: State;
+  total: number;
+  open: number;
+  halfOpen: number;
+  closed: number;
+  breakers: Record<string, CircuitBreakerMetrics>;
+}
+
+/**
+ * Named circuit breakers, created on first use. Share one registry between `ApiClient`s
+ * to give them a common view of which hosts or endpoints are failing.
+ *
+ * @example
+ * ```typescript
+ * const breakers = new CircuitBreakerRegistry({
+ *   defaults: { failureThreshold: 3 },
+ *   stateFile: "test-results/.circuit-breakers.json",
+ * });
+ * const ccd = new ApiClient({ circuitBreaker: { enabled: true, keyBy: "endpoint", registry: breakers } });
+ * ```
+ */
+export class CircuitBreakerRegistry {
+  private readonly breakers = new Map<string, CircuitBreaker>();
+  private readonly listeners: Array<{
+    type: CircuitBreakerEventType;
+    listener: (event: CircuitBreakerRegistryEvent) => void;
+  }> = [];
+  private readonly defaults: CircuitBreakerOptions | undefined;
+  private readonly stateFile: string | undefined;
+
+  constructor(options?: CircuitBreakerRegistryOptions) {
+    this.defaults = options?.defaults;
+    this.stateFile = options?.stateFile ? path.resolve(options.stateFile) : undefined;
+  }
+
+  /** Breaker for `key`; `options` only apply when the breaker is created */
+  public get(key: string, options?: CircuitBreakerOptions): CircuitBreaker {
+    let breaker = this.breakers.get(key);
+    if (!breaker) {
+      const resolved = { ...this.defaults, ...options };
+      breaker = this.stateFile
+        ? new SharedCircuitBreaker(key, this.stateFile, resolved)
+        : new CircuitBreaker(resolved);
+      for (const type of ["open", "half-open", "close", "rejected"] as const) {
+        breaker.on(type, (event) => this.emit(type, { ...event, key }));
+      }
+      this.breakers.set(key, breaker);
+    }
+    return breaker;
+  }
+
+  /** Listen to an event type on every breaker, including ones created later */
+  public on(type: CircuitBreakerEventType, listener: (event: CircuitBreakerRegistryEvent) => void): this {
+    this.listeners.push({ type, listener });
+    return this;
+  }
+
+  public off(type: CircuitBreakerEventType, listener: (event: CircuitBreakerRegistryEvent) => void): this {
+    const index = this.listeners.findIndex((entry) => entry.type === type && entry.listener === listener);
+    if (index >= 0) this.listeners.splice(index, 1);
+    return this;
+  }
+
+  public has(key: string): boolean {
+    return this.breakers.has(key);
+  }
+
+  public keys(): string[] {
+    return [...this.breakers.keys()];
+  }
+
+  /** Forget breakers (all when no keys are given); shared state in `stateFile` is kept */
+  public reset(...keys: string[]): void {
+    for (const key of keys.length ? keys : this.keys()) {
+      this.breakers.delete(key);
+    }
+  }
+
+  /** Per-breaker metrics plus counts by state, optionally limited to some keys */
+  public getMetrics(keys: string[] = this.keys()): CircuitBreakerRegistryMetrics {
+    const metrics: CircuitBreakerRegistryMetrics = {
+      state: "closed",
+      total: 0,
+      open: 0,
+      halfOpen: 0,
+      closed: 0,
+      breakers: {},
+    };
+    for (const key of keys) {
+      const breaker = this.breakers.get(key);
+      if (!breaker) continue;
+      const breakerMetrics = breaker.getMetrics();
+      metrics.breakers[key] = breakerMetrics;
+      metrics.total++;
+      if (breakerMetrics.state === "open") metrics.open++;
+      else if (breakerMetrics.state === "half-open") metrics.halfOpen++;
+      else metrics.closed++;
+    }
+    if (metrics.open > 0) metrics.state = "open";
+    else if (metrics.halfOpen > 0) metrics.state = "half-open";
+    return metrics;
+  }
+
+  /** Breakers carry one listener per event type; registry listeners are fanned out here */
+  private emit(type: CircuitBreakerEventType, event: CircuitBreakerRegistryEvent): void {
+    for (const entry of [...this.listeners]) {
+      if (entry.type === type) entry.listener(event);
+    }
+  }
+}
+
+type SharedState = CircuitBreakerSnapshot & { key: string; updatedAt: number };
+
+/** Breaker that reloads newer state from its shared file before each check and writes its transitions back */
+class SharedCircuitBreaker extends CircuitBreaker {
+  private readonly file: string;
+  private syncedAt = 0;
+
+  constructor(
+    private readonly key: string,
+    stateFile: string,
+    options: CircuitBreakerOptions
+  ) {
+    super(options);
+    this.file = sharedStateFile(stateFile, key);
+  }
+
+  public override canProceed(now = Date.now()): boolean {
+    this.load();
+    return this.track(() => super.canProceed(now));
+  }
+
+  public override onSuccess(durationMs?: number, now = Date.now()): void {
+    this.track(() => super.onSuccess(durationMs, now));
+  }
+
+  public override onFailure(now = Date.now(), durationMs?: number): void {
+    this.track(() => super.onFailure(now, durationMs));
+  }
+
+  private track<T>(action: () => T): T {
+    const before = this.getSnapshot().state;
+    const result = action();
+    if (this.getSnapshot().state !== before) this.save();
+    return result;
+  }
+
+  private load(): void {
+    const shared = this.read();
+    if (shared && shared.updatedAt > this.syncedAt) {
+      this.restore(shared);
+      this.syncedAt = shared.updatedAt;
+    }
+  }
+
+  /** Only this breaker's file is replaced, atomically, so other keys are never touched */
+  private save(): void {
+    this.syncedAt = Math.max(Date.now(), (this.read()?.updatedAt ?? 0) + 1);
+    const shared: SharedState = { key: this.key, ...this.getSnapshot(), updatedAt: this.syncedAt };
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    const temp = `${this.file}.${process.pid}.${Date.now()}.tmp`;
+    fs.writeFileSync(temp, JSON.stringify(shared), "utf8");
+    fs.renameSync(temp, this.file);
+  }
+
+  private read(): SharedState | undefined {
+    try {
+      const shared = JSON.parse(fs.readFileSync(this.file, "utf8")) as SharedState;
+      return shared.key === this.key ? shared : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+function sharedStateFile(stateFile: string, key: string): string {
+  const { dir, name, ext } = path.parse(stateFile);
+  const hash = createHash("sha256").update(key).digest("hex").slice(0, 16);
+  return path.join(dir, `${name}.${hash}${ext || ".json"}`);
+}
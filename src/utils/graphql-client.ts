@@ -0,0 +1,199 @@
+import {
+  ApiClient,
+  ApiClientError,
+  type ApiClientOptions,
+  type ApiLogEntry,
+  type ApiRequestOptions,
+  type ApiResponsePayload,
+} from "./api-client.js";
+
+export type GraphQLOperationType = "query" | "mutation";
+
+/** One entry of a GraphQL response `errors` array */
+export interface GraphQLErrorItem {
+  message: string;
+  path?: Array<string | number>;
+  locations?: Array<{ line: number; column: number }>;
+  extensions?: Record<string, unknown>;
+}
+
+export interface GraphQLResponseBody<TData> {
+  data?: TData | null;
+  errors?: GraphQLErrorItem[];
+  extensions?: Record<string, unknown>;
+}
+
+export interface GraphQLClientOptions extends ApiClientOptions {
+  /** Path or URL of the GraphQL endpoint (default: "/graphql") */
+  endpoint?: string;
+  /** Reuse an existing ApiClient (its auth, interceptors and breaker); other client options are ignored */
+  client?: ApiClient;
+}
+
+export interface GraphQLRequestOptions
+  extends Omit<
+    ApiRequestOptions,
+    "data" | "form" | "multipart" | "query" | "responseType" | "detectError" | "operation"
+  > {
+  /** Defaults to the name declared in the document, e.g. `query GetCase { ... }` */
+  operationName?: string;
+  /** Return partial `data` alongside `errors` instead of throwing (default: false) */
+  allowPartialData?: boolean;
+}
+
+export interface GraphQLResult<TData> {
+  data: TData;
+  /** Only present when `allowPartialData` let a response with errors through */
+  errors?: GraphQLErrorItem[];
+  extensions?: Record<string, unknown>;
+  response: ApiResponsePayload<GraphQLResponseBody<TData>>;
+}
+
+/** Thrown when a GraphQL response carries an `errors` array */
+export class ApiGraphQLError extends ApiClientError {
+  public readonly errors: GraphQLErrorItem[];
+  public readonly operationName: string | undefined;
+  /** Partial data returned alongside the errors, if any */
+  public readonly data: unknown;
+
+  constructor(message: string, status: number, logEntry: ApiLogEntry, errors: GraphQLErrorItem[], meta?: {
+    endpointPath?: string;
+    attempt?: number;
+    elapsedMs?: number;
+    correlationId?: string;
+    operationName?: string;
+    data?: unknown;
+  }) {
+    super(message, status, logEntry, meta);
+    this.name = "ApiGraphQLError";
+    this.errors = errors;
+    this.operationName = meta?.operationName;
+    this.data = meta?.data;
+  }
+
+  /** `extensions.code` of each error, e.g. `UNAUTHENTICATED` */
+  public get codes(): string[] {
+    return this.errors
+      .map((error) => error.extensions?.code)
+      .filter((code): code is string => typeof code === "string");
+  }
+}
+
+/**
+ * GraphQL over ApiClient: requests are POSTed to one endpoint, logged with the operation
+ * name, and `errors` arrays become `ApiGraphQLError`s that reach `onError` and the breaker.
+ *
+ * @example
+ * ```typescript
+ * const gql = new GraphQLClient({ baseUrl: process.env.SERVICE_URL, auth });
+ * const { data } = await gql.query<{ case: { id: string } }>(
+ *   `query GetCase($id: ID!) { case(id: $id) { id } }`,
+ *   { id: "123" }
+ * );
+ * ```
+ */
+export class GraphQLClient {
+  public readonly client: ApiClient;
+  private readonly endpoint: string;
+
+  constructor(options?: GraphQLClientOptions) {
+    const { endpoint, client, ...clientOptions } = options ?? {};
+    this.client = client ?? new ApiClient({ name: "graphql-client", ...clientOptions });
+    this.endpoint = endpoint ?? "/graphql";
+  }
+
+  /** Run a query; queries are side-effect free, so the client retry policy applies to them */
+  public async query<TData = unknown, TVariables extends Record<string, unknown> = Record<string, unknown>>(
+    document: string,
+    variables?: TVariables,
+    options?: GraphQLRequestOptions
+  ): Promise<GraphQLResult<TData>> {
+    return this.execute<TData>("query", document, variables, options);
+  }
+
+  /** Run a mutation; mutations are only retried when the request sets `retryNonIdempotent` */
+  public async mutation<TData = unknown, TVariables extends Record<string, unknown> = Record<string, unknown>>(
+    document: string,
+    variables?: TVariables,
+    options?: GraphQLRequestOptions
+  ): Promise<GraphQLResult<TData>> {
+    return this.execute<TData>("mutation", document, variables, options);
+  }
+
+  public async dispose(): Promise<void> {
+    await this.client.dispose();
+  }
+
+  private async execute<TData>(
+    type: GraphQLOperationType,
+    document: string,
+    variables: Record<string, unknown> | undefined,
+    options: GraphQLRequestOptions | undefined
+  ): Promise<GraphQLResult<TData>> {
+    const { operationName: explicitName, allowPartialData, ...requestOptions } = options ?? {};
+    const operationName = explicitName ?? parseOperationName(document);
+    const body: Record<string, unknown> = { query: document };
+    if (variables !== undefined) body.variables = variables;
+    if (operationName !== undefined) body.operationName = operationName;
+
+    const apiOptions: ApiRequestOptions = {
+      ...requestOptions,
+      data: body,
+      responseType: "json",
+      operation: `${type} ${operationName ?? "anonymous"}`,
+      detectError: (data, logEntry) =>
+        this.detectErrors(data, logEntry, operationName, allowPartialData ?? false),
+    };
+    if (type === "query" && options?.retry !== false) {
+      apiOptions.retry = { retryNonIdempotent: true, ...options?.retry };
+    }
+
+    const response = await this.client.post<GraphQLResponseBody<TData>>(this.endpoint, apiOptions);
+    const result: GraphQLResult<TData> = {
+      data: response.data?.data as TData,
+      response,
+    };
+    if (response.data?.errors?.length) result.errors = response.data.errors;
+    if (response.data?.extensions) result.extensions = response.data.extensions;
+    return result;
+  }
+
+  private detectErrors(
+    data: unknown,
+    logEntry: ApiLogEntry,
+    operationName: string | undefined,
+    allowPartialData: boolean
+  ): ApiClientError | undefined {
+    const body = data as GraphQLResponseBody<unknown> | undefined;
+    const errors = Array.isArray(body?.errors) ? body.errors : [];
+    const hasData = body?.data !== undefined && body.data !== null;
+    if (errors.length === 0 || (allowPartialData && hasData)) return undefined;
+
+    const label = operationName ?? "anonymous operation";
+    const summary = errors
+      .slice(0, 3)
+      .map((error) => error.message)
+      .join("; ");
+    const more = errors.length > 3 ? ` (+${errors.length - 3} more)` : "";
+    const meta: ConstructorParameters<typeof ApiGraphQLError>[4] = {
+      endpointPath: this.endpoint,
+      elapsedMs: logEntry.durationMs,
+    };
+    if (logEntry.attempt !== undefined) meta.attempt = logEntry.attempt;
+    if (logEntry.correlationId !== undefined) meta.correlationId = logEntry.correlationId;
+    if (operationName !== undefined) meta.operationName = operationName;
+    if (hasData) meta.data = body?.data;
+    return new ApiGraphQLError(
+      `GraphQL ${label} failed: ${summary}${more}`,
+      logEntry.status,
+      logEntry,
+      errors,
+      meta
+    );
+  }
+}
+
+function parseOperationName(document: string): string | undefined {
+  const match = /\b(?:query|mutation|subscription)\s+([_A-Za-z][_0-9A-Za-z]*)/.exec(document);
+  return match?.[1];
+}
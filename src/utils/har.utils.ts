@@ -0,0 +1,238 @@
+import fs from "node:fs";
+import { STATUS_CODES } from "node:http";
+import path from "node:path";
+import type { ApiLogEntry } from "./api-client.js";
+import { rawBodiesAllowed } from "./api-client.js";
+
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    queryString: HarNameValue[];
+    postData?: {
+      mimeType: string;
+      text: string;
+      params?: HarNameValue[];
+    };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    content: {
+      size: number;
+      mimeType: string;
+      text?: string;
+    };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: {
+    send: number;
+    wait: number;
+    receive: number;
+  };
+  comment?: string;
+  _correlationId?: string;
+  _clientName?: string;
+}
+
+export interface HarLog {
+  log: {
+    version: "1.2";
+    creator: { name: string; version: string };
+    pages: [];
+    entries: HarEntry[];
+  };
+}
+
+export interface HarOptions {
+  /** Use raw bodies when captured; still gated by PLAYWRIGHT_DEBUG_API / NODE_ENV=development */
+  includeRaw?: boolean;
+  creator?: { name: string; version: string };
+}
+
+const DEFAULT_CREATOR = { name: "@hmcts/playwright-common", version: "1" };
+
+/**
+ * Convert ApiClient log entries into a HAR 1.2 document.
+ * Entries are already redacted by the client; raw bodies are only used when
+ * `includeRaw` is requested and debug mode allows it (fail-closed, like `buildApiAttachment`).
+ */
+export function buildHar(entries: ApiLogEntry[], options?: HarOptions): HarLog {
+  const includeRaw = (options?.includeRaw ?? false) && rawBodiesAllowed();
+  return {
+    log: {
+      version: "1.2",
+      creator: options?.creator ?? DEFAULT_CREATOR,
+      pages: [],
+      entries: entries.map((entry) => toHarEntry(entry, includeRaw)),
+    },
+  };
+}
+
+/**
+ * Collects ApiClient log entries during a run and exports them as HAR.
+ *
+ * @example
+ * ```typescript
+ * const recorder = new ApiHarRecorder();
+ * const client = new ApiClient({ baseUrl, onResponse: recorder.record });
+ * // ...
+ * recorder.save(testInfo.outputPath("api.har"));
+ * ```
+ */
+export class ApiHarRecorder {
+  private readonly recorded: ApiLogEntry[] = [];
+
+  constructor(private readonly options?: HarOptions) {}
+
+  /** Record an entry; bound so it can be passed directly as `onResponse` */
+  public readonly record = (entry: ApiLogEntry): void => {
+    this.recorded.push(entry);
+  };
+
+  public get entries(): readonly ApiLogEntry[] {
+    return this.recorded;
+  }
+
+  public clear(): void {
+    this.recorded.length = 0;
+  }
+
+  public toHar(): HarLog {
+    return buildHar(this.recorded, this.options);
+  }
+
+  /** Write the HAR file (creating parent directories) and return the resolved path */
+  public save(filePath: string): string {
+    const resolved = path.resolve(filePath);
+    fs.mkdirSync(path.dirname(resolved), { recursive: true });
+    fs.writeFileSync(resolved, JSON.stringify(this.toHar(), null, 2), "utf8");
+    return resolved;
+  }
+}
+
+function toHarEntry(entry: ApiLogEntry, includeRaw: boolean): HarEntry {
+  const requestHeaders = toNameValues(entry.request.headers);
+  const responseHeaders = toNameValues(entry.response.headers);
+  const queryString = toNameValues(
+    entry.request.query as Record<string, unknown> | undefined
+  );
+  const responseText = includeRaw && entry.rawResponse !== undefined
+    ? entry.rawResponse
+    : stringifyBody(entry.response.body);
+
+  const harEntry: HarEntry = {
+    startedDateTime: entry.timestamp,
+    time: entry.durationMs,
+    request: {
+      method: entry.method,
+      url: appendQuery(entry.url, queryString),
+      httpVersion: "HTTP/1.1",
+      cookies: [],
+      headers: requestHeaders,
+      queryString,
+      headersSize: -1,
+      bodySize: -1,
+    },
+    response: {
+      status: entry.status,
+      statusText: STATUS_CODES[entry.status] ?? "",
+      httpVersion: "HTTP/1.1",
+      cookies: [],
+      headers: responseHeaders,
+      content: {
+        size: responseText === undefined ? 0 : Buffer.byteLength(responseText),
+        mimeType: findHeader(entry.response.headers, "content-type") ?? "x-unknown",
+      },
+      redirectURL: "",
+      headersSize: -1,
+      bodySize: -1,
+    },
+    cache: {},
+    timings: { send: 0, wait: entry.durationMs, receive: 0 },
+  };
+
+  const postData = buildPostData(entry, includeRaw);
+  if (postData) harEntry.request.postData = postData;
+  if (responseText !== undefined) harEntry.response.content.text = responseText;
+  if (entry.error) harEntry.comment = entry.error;
+  if (entry.correlationId) harEntry._correlationId = entry.correlationId;
+  harEntry._clientName = entry.name;
+  return harEntry;
+}
+
+function buildPostData(
+  entry: ApiLogEntry,
+  includeRaw: boolean
+): HarEntry["request"]["postData"] | undefined {
+  const form = includeRaw && entry.rawRequest?.form ? entry.rawRequest.form : entry.request.form;
+  if (form) {
+    const params = toNameValues(form);
+    return {
+      mimeType: "application/x-www-form-urlencoded",
+      text: new URLSearchParams(params.map((p) => [p.name, p.value])).toString(),
+      params,
+    };
+  }
+  const data = includeRaw && entry.rawRequest?.data !== undefined
+    ? entry.rawRequest.data
+    : entry.request.data;
+  const text = stringifyBody(data);
+  if (text === undefined) return undefined;
+  return {
+    mimeType: findHeader(entry.request.headers, "content-type") ?? "application/json",
+    text,
+  };
+}
+
+function toNameValues(record: Record<string, unknown> | undefined): HarNameValue[] {
+  if (!record) return [];
+  return Object.entries(record)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => ({ name, value: String(value) }));
+}
+
+function appendQuery(url: string, query: HarNameValue[]): string {
+  if (query.length === 0) return url;
+  try {
+    const parsed = new URL(url);
+    for (const { name, value } of query) {
+      parsed.searchParams.append(name, value);
+    }
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+function findHeader(
+  headers: Record<string, string> | undefined,
+  name: string
+): string | undefined {
+  if (!headers) return undefined;
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === name);
+  return key ? headers[key] : undefined;
+}
+
+function stringifyBody(body: unknown): string | undefined {
+  if (body === undefined) return undefined;
+  return typeof body === "string" ? body : JSON.stringify(body);
+}
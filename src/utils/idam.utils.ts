@@ -7,7 +7,6 @@ import {
 } from "./api-client.js";
 import { createChildLogger, createLogger } from "../logging/logger.js";
 import { serialiseApiBody } from "./error.utils.js";
-import { withRetry, isRetryableError } from "./retry.utils.js";
 
 interface UserBase {
   email: string;
@@ -170,21 +169,21 @@ export class IdamUtils {
    */
   public async generateIdamToken(payload: IdamTokenParams): Promise<string> {
     try {
-      // Optional retry/backoff controlled via env vars
-      const attempts = Number(process.env["IDAM_RETRY_ATTEMPTS"] ?? 1);
-      const baseMs = Number(process.env["IDAM_RETRY_BASE_MS"] ?? 200);
-      const exec = async () =>
-        this.tokenClient.post<TokenResponse>("o/token", {
-          form: buildTokenForm(payload),
-          headers: {
-            "content-type": "application/x-www-form-urlencoded",
-          },
-          responseType: "json",
-        });
-
-      const response = attempts > 1
-        ? await withRetry(exec, attempts, baseMs, 2000, 15000, isRetryableError)
-        : await exec();
+      // Optional retry/backoff controlled via env vars (applied by the ApiClient retry policy)
+      const response = await this.tokenClient.post<TokenResponse>("o/token", {
+        form: buildTokenForm(payload),
+        headers: {
+          "content-type": "application/x-www-form-urlencoded",
+        },
+        responseType: "json",
+        retry: {
+          // 0 has always meant "no retries", so it is clamped to a single attempt
+          attempts: Math.max(1, Number(process.env["IDAM_RETRY_ATTEMPTS"] ?? 1)),
+          baseMs: Number(process.env["IDAM_RETRY_BASE_MS"] ?? 200),
+          // o/token does not create state, so replaying the POST is safe
+          retryNonIdempotent: true,
+        },
+      });
 
       if (!response.data?.access_token) {
         throw new Error("Missing access token in response payload.");
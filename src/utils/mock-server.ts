@@ -0,0 +1,472 @@
+import { randomUUID } from "node:crypto";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+
+export type MockMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE" | "HEAD" | "OPTIONS" | "*";
+
+/** Request as seen by handlers and recorded in the journal */
+export interface MockRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  /** Raw body text */
+  body: string;
+  /** Parsed body for JSON requests */
+  json?: unknown;
+  /** Parsed fields for `application/x-www-form-urlencoded` requests */
+  form?: Record<string, string>;
+  /** Values captured by `:name` segments of the route pattern */
+  params: Record<string, string>;
+  receivedAt: number;
+}
+
+export interface MockResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  /** Objects are sent as JSON, strings as text, Buffers as binary */
+  body?: unknown;
+  delayMs?: number;
+}
+
+export type MockHandler = (request: MockRequest) => MockResponse | Promise<MockResponse>;
+
+/**
+ * - `reset`: destroy the socket without a response (surfaces as ECONNRESET / socket hang up)
+ * - `hang`: never respond, so the client times out
+ */
+export type MockFault = "reset" | "hang";
+
+export interface MockRouteOptions {
+  /** Remove the route after this many matches */
+  times?: number;
+  /** Added latency for this route, on top of the server-wide `latencyMs` */
+  delayMs?: number;
+  fault?: MockFault;
+  /** Probability (0-1) that `fault` applies to a matching request (default: 1) */
+  faultRate?: number;
+}
+
+export interface MockServerOptions {
+  /** Default: an ephemeral port */
+  port?: number;
+  host?: string;
+  /** Latency added to every response */
+  latencyMs?: number;
+}
+
+/** Journal entry: the request plus what the server did with it */
+export interface MockJournalEntry extends MockRequest {
+  /** Pattern of the matched route, undefined when nothing matched (404) */
+  route: string | undefined;
+  status: number | undefined;
+  fault?: MockFault;
+}
+
+interface MockRoute {
+  method: MockMethod;
+  pattern: string | RegExp;
+  matcher: RegExp;
+  paramNames: string[];
+  respond: MockHandler;
+  options: MockRouteOptions;
+  matches: number;
+}
+
+/**
+ * In-process HTTP server for testing ApiClient-based helpers without a backend. Point a
+ * client's `baseUrl` (or the IDAM/S2S env vars) at `server.url`.
+ *
+ * Routes are matched newest first, so a test can override a default route by registering
+ * the same pattern again. `:name` segments are captured into `request.params`, `*` matches
+ * any run of characters, and a RegExp is matched against the path.
+ *
+ * @example
+ * ```typescript
+ * const server = await MockServer.start();
+ * server.get("/cases/:id", (req) => ({ body: { id: req.params.id, state: "Open" } }));
+ * server.post("/cases", { status: 503 }, { times: 1 });
+ *
+ * const client = new ApiClient({ baseUrl: server.url });
+ * await client.get("/cases/123");
+ * expect(server.requestsTo("GET", "/cases/:id")).toHaveLength(1);
+ * await server.stop();
+ * ```
+ */
+export class MockServer {
+  private routes: MockRoute[] = [];
+  private journal: MockJournalEntry[] = [];
+  private readonly hanging = new Set<http.ServerResponse>();
+
+  private constructor(
+    private readonly server: http.Server,
+    public readonly url: string,
+    private readonly latencyMs: number
+  ) {}
+
+  public static async start(options?: MockServerOptions): Promise<MockServer> {
+    const latencyMs = options?.latencyMs ?? 0;
+    if (latencyMs < 0) {
+      throw new Error(`latencyMs must be non-negative, got ${latencyMs}`);
+    }
+    const host = options?.host ?? "127.0.0.1";
+    const server = http.createServer();
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(options?.port ?? 0, host, () => resolve());
+    });
+    const { port } = server.address() as AddressInfo;
+    const mock = new MockServer(server, `http://${host}:${port}`, latencyMs);
+    server.on("request", (req: http.IncomingMessage, res: http.ServerResponse) => {
+      void mock.handle(req, res);
+    });
+    return mock;
+  }
+
+  /** Register a route; `response` is a fixed response or a handler computing one */
+  public on(
+    method: MockMethod,
+    pattern: string | RegExp,
+    response: MockResponse | MockHandler,
+    options: MockRouteOptions = {}
+  ): this {
+    if (options.times !== undefined && options.times < 1) {
+      throw new Error(`times must be >= 1, got ${options.times}`);
+    }
+    const { matcher, paramNames } = compilePattern(pattern);
+    this.routes.unshift({
+      method,
+      pattern,
+      matcher,
+      paramNames,
+      respond: typeof response === "function" ? response : () => response,
+      options,
+      matches: 0,
+    });
+    return this;
+  }
+
+  public get(pattern: string | RegExp, response: MockResponse | MockHandler, options?: MockRouteOptions): this {
+    return this.on("GET", pattern, response, options);
+  }
+
+  public post(pattern: string | RegExp, response: MockResponse | MockHandler, options?: MockRouteOptions): this {
+    return this.on("POST", pattern, response, options);
+  }
+
+  public put(pattern: string | RegExp, response: MockResponse | MockHandler, options?: MockRouteOptions): this {
+    return this.on("PUT", pattern, response, options);
+  }
+
+  public patch(pattern: string | RegExp, response: MockResponse | MockHandler, options?: MockRouteOptions): this {
+    return this.on("PATCH", pattern, response, options);
+  }
+
+  public delete(pattern: string | RegExp, response: MockResponse | MockHandler, options?: MockRouteOptions): this {
+    return this.on("DELETE", pattern, response, options);
+  }
+
+  /** Every request received, oldest first */
+  public get requests(): readonly MockJournalEntry[] {
+    return this.journal;
+  }
+
+  /** Journal entries for a route pattern as registered (or any path matching it) */
+  public requestsTo(method: MockMethod, pattern: string | RegExp): MockJournalEntry[] {
+    const { matcher } = compilePattern(pattern);
+    return this.journal.filter(
+      (entry) =>
+        (method === "*" || entry.method === method) &&
+        (String(entry.route) === String(pattern) || matcher.test(entry.path))
+    );
+  }
+
+  public clearJournal(): void {
+    this.journal = [];
+  }
+
+  /** Drop all routes and the journal */
+  public reset(): void {
+    this.routes = [];
+    this.clearJournal();
+  }
+
+  public async stop(): Promise<void> {
+    for (const res of this.hanging) res.destroy();
+    this.hanging.clear();
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve, reject) => {
+      this.server.close((error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    let entry: MockJournalEntry | undefined;
+    try {
+      const request = await readRequest(req);
+      entry = { ...request, route: undefined, status: undefined };
+      this.journal.push(entry);
+      await this.respond(request, entry, req, res);
+    } catch (error) {
+      // Never leave the client waiting: malformed escapes in the path are the caller's fault,
+      // anything else (e.g. an invalid header from a handler) is reported as a server error
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      const status = error instanceof URIError ? 400 : 500;
+      if (entry) entry.status = status;
+      sendResponse(res, { status, body: { error: error instanceof Error ? error.message : String(error) } });
+    }
+  }
+
+  private async respond(
+    request: MockRequest,
+    entry: MockJournalEntry,
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const route = this.routes.find(
+      (candidate) =>
+        (candidate.method === "*" || candidate.method === request.method) &&
+        candidate.matcher.test(request.path)
+    );
+    if (!route) {
+      entry.status = 404;
+      sendResponse(res, {
+        status: 404,
+        body: { error: `No mock route for ${request.method} ${request.path}` },
+      });
+      return;
+    }
+
+    route.matches++;
+    if (route.options.times !== undefined && route.matches >= route.options.times) {
+      this.routes = this.routes.filter((candidate) => candidate !== route);
+    }
+    entry.route = String(route.pattern);
+    const match = route.matcher.exec(request.path);
+    route.paramNames.forEach((name, index) => {
+      request.params[name] = decodeURIComponent(match?.[index + 1] ?? "");
+    });
+    entry.params = request.params;
+
+    const fault = route.options.fault;
+    if (fault && Math.random() < (route.options.faultRate ?? 1)) {
+      entry.fault = fault;
+      await sleep(this.latencyMs + (route.options.delayMs ?? 0));
+      if (fault === "reset") {
+        req.socket.destroy();
+      } else {
+        this.hanging.add(res);
+        res.once("close", () => this.hanging.delete(res));
+      }
+      return;
+    }
+
+    let response: MockResponse;
+    try {
+      response = await route.respond(request);
+    } catch (error) {
+      response = { status: 500, body: { error: error instanceof Error ? error.message : String(error) } };
+    }
+    await sleep(this.latencyMs + (route.options.delayMs ?? 0) + (response.delayMs ?? 0));
+    entry.status = response.status ?? 200;
+    sendResponse(res, response);
+  }
+}
+
+/** Unsigned JWT-shaped token, for stand-ins whose callers decode claims */
+export function createMockJwt(claims: Record<string, unknown>): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  const now = Math.floor(Date.now() / 1000);
+  return `${encode({ alg: "none", typ: "JWT" })}.${encode({ iat: now, exp: now + 8 * 3600, ...claims })}.`;
+}
+
+export interface MockIdamUser {
+  id: string;
+  email: string;
+  password: string;
+  forename: string;
+  surname: string;
+  roleNames: string[];
+}
+
+/** Users created through the testing-support stand-in, keyed by id */
+export interface MockIdamState {
+  users: Map<string, MockIdamUser>;
+  /** Form bodies posted to `o/token` */
+  tokenRequests: Array<Record<string, string>>;
+}
+
+/**
+ * IDAM stand-ins for `IdamUtils`: `POST /o/token` plus testing-support
+ * `POST /test/idam/users`, `GET /test/idam/users?email=`, `GET|PUT|DELETE /test/idam/users/:id`.
+ * Point both `IDAM_WEB_URL` and `IDAM_TESTING_SUPPORT_URL` at `server.url`.
+ */
+export function mockIdam(server: MockServer): MockIdamState {
+  const state: MockIdamState = { users: new Map(), tokenRequests: [] };
+  const view = (user: MockIdamUser) => ({
+    id: user.id,
+    email: user.email,
+    forename: user.forename,
+    surname: user.surname,
+    roleNames: user.roleNames,
+    displayName: `${user.forename} ${user.surname}`,
+    accountStatus: "ACTIVE",
+    recordType: "LIVE",
+  });
+  const findByEmail = (email: string | undefined) =>
+    [...state.users.values()].find((user) => user.email.toLowerCase() === email?.toLowerCase());
+
+  server.post("/o/token", (req) => {
+    const form = req.form ?? {};
+    state.tokenRequests.push(form);
+    if (!form.grant_type || !form.client_id) {
+      return { status: 400, body: { error: "invalid_request" } };
+    }
+    if (form.grant_type === "password") {
+      const user = findByEmail(form.username);
+      if (user && user.password !== form.password) {
+        return { status: 401, body: { error: "invalid_grant" } };
+      }
+    }
+    return {
+      body: {
+        access_token: createMockJwt({ sub: form.username ?? form.client_id, scope: form.scope }),
+        token_type: "Bearer",
+        expires_in: 28800,
+        scope: form.scope,
+      },
+    };
+  });
+  server.post("/test/idam/users", (req) => {
+    const body = (req.json ?? {}) as { password?: string; user?: Partial<MockIdamUser> };
+    const email = body.user?.email;
+    if (!email || !body.password) {
+      return { status: 400, body: { error: "email and password are required" } };
+    }
+    if (findByEmail(email)) {
+      return { status: 409, body: { error: `User ${email} already exists` } };
+    }
+    const user: MockIdamUser = {
+      id: body.user?.id ?? randomUUID(),
+      email,
+      password: body.password,
+      forename: body.user?.forename ?? "",
+      surname: body.user?.surname ?? "",
+      roleNames: body.user?.roleNames ?? [],
+    };
+    state.users.set(user.id, user);
+    return { status: 201, body: view(user) };
+  });
+  server.get("/test/idam/users", (req) => {
+    const user = findByEmail(req.query.email);
+    return user ? { body: [view(user)] } : { body: [] };
+  });
+  server.get("/test/idam/users/:id", (req) => {
+    const user = state.users.get(req.params.id ?? "");
+    return user ? { body: view(user) } : { status: 404, body: { error: "User not found" } };
+  });
+  server.put("/test/idam/users/:id", (req) => {
+    const existing = state.users.get(req.params.id ?? "");
+    if (!existing) return { status: 404, body: { error: "User not found" } };
+    const body = (req.json ?? {}) as { password?: string; user?: Partial<MockIdamUser> };
+    const updated: MockIdamUser = { ...existing, ...body.user, id: existing.id, password: body.password ?? existing.password };
+    state.users.set(updated.id, updated);
+    return { body: view(updated) };
+  });
+  server.delete("/test/idam/users/:id", (req) =>
+    state.users.delete(req.params.id ?? "") ? { status: 204 } : { status: 404, body: { error: "User not found" } }
+  );
+  return state;
+}
+
+/**
+ * S2S stand-in for `ServiceAuthUtils`: `POST /lease` and `POST /testing-support/lease`
+ * return a JWT-shaped token whose `sub` is the requested microservice. Set `S2S_URL` to
+ * `${server.url}/testing-support/lease`.
+ */
+export function mockS2s(server: MockServer, options?: { allowedServices?: string[] }): void {
+  const lease: MockHandler = (req) => {
+    const microservice = (req.json as { microservice?: string } | undefined)?.microservice;
+    if (!microservice) return { status: 400, body: { error: "microservice is required" } };
+    if (options?.allowedServices && !options.allowedServices.includes(microservice)) {
+      return { status: 401, body: { error: `${microservice} is not allowed` } };
+    }
+    return { headers: { "content-type": "text/plain" }, body: createMockJwt({ sub: microservice }) };
+  };
+  server.post("/lease", lease);
+  server.post("/testing-support/lease", lease);
+}
+
+function compilePattern(pattern: string | RegExp): { matcher: RegExp; paramNames: string[] } {
+  if (pattern instanceof RegExp) return { matcher: pattern, paramNames: [] };
+  const paramNames: string[] = [];
+  const source = pattern
+    .replace(/^\/?/, "/")
+    .split(/(:[A-Za-z_][A-Za-z0-9_]*|\*)/)
+    .map((part) => {
+      if (part === "*") return ".*";
+      if (part.startsWith(":")) {
+        paramNames.push(part.slice(1));
+        return "([^/]+)";
+      }
+      return part.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return { matcher: new RegExp(`^${source}/?$`), paramNames };
+}
+
+async function readRequest(req: http.IncomingMessage): Promise<MockRequest> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const body = Buffer.concat(chunks).toString("utf8");
+  const url = new URL(req.url ?? "/", "http://mock.local");
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value !== undefined) headers[name] = Array.isArray(value) ? value.join(", ") : value;
+  }
+  const request: MockRequest = {
+    method: req.method ?? "GET",
+    path: url.pathname,
+    query: Object.fromEntries(url.searchParams),
+    headers,
+    body,
+    params: {},
+    receivedAt: Date.now(),
+  };
+  const contentType = headers["content-type"] ?? "";
+  if (contentType.includes("json") && body) {
+    try {
+      request.json = JSON.parse(body);
+    } catch {
+      // Leave malformed JSON available as raw text only
+    }
+  } else if (contentType.includes("application/x-www-form-urlencoded")) {
+    request.form = Object.fromEntries(new URLSearchParams(body));
+  }
+  return request;
+}
+
+function sendResponse(res: http.ServerResponse, response: MockResponse): void {
+  const headers = { ...response.headers };
+  const hasContentType = Object.keys(headers).some((name) => name.toLowerCase() === "content-type");
+  let payload: string | Buffer | undefined;
+  if (Buffer.isBuffer(response.body)) {
+    payload = response.body;
+    if (!hasContentType) headers["content-type"] = "application/octet-stream";
+  } else if (typeof response.body === "string") {
+    payload = response.body;
+    if (!hasContentType) headers["content-type"] = "text/plain";
+  } else if (response.body !== undefined) {
+    payload = JSON.stringify(response.body);
+    if (!hasContentType) headers["content-type"] = "application/json";
+  }
+  res.writeHead(response.status ?? 200, headers);
+  res.end(payload);
+}
+
+function sleep(ms: number): Promise<void> {
+  return ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+}
@@ -0,0 +1,138 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { Readable } from "node:stream";
+import {
+  sanitiseValue,
+  summariseBinary,
+  type BinarySummary,
+  type RedactionState,
+} from "../logging/redaction.js";
+
+/**
+ * A file part for `ApiRequestOptions.multipart`. Provide exactly one of `path`, `buffer`
+ * or `stream`; `name` defaults to the file's basename and `mimeType` is guessed from it.
+ */
+export interface ApiMultipartFile {
+  path?: string;
+  buffer?: Buffer;
+  stream?: Readable;
+  name?: string;
+  mimeType?: string;
+}
+
+export type ApiMultipartValue = string | number | boolean | ApiMultipartFile;
+
+/** Shape Playwright expects for in-memory file parts */
+interface FetchFilePart {
+  name: string;
+  mimeType: string;
+  buffer: Buffer;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  ".bmp": "image/bmp",
+  ".csv": "text/csv",
+  ".doc": "application/msword",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".gif": "image/gif",
+  ".htm": "text/html",
+  ".html": "text/html",
+  ".jpeg": "image/jpeg",
+  ".jpg": "image/jpeg",
+  ".json": "application/json",
+  ".mp3": "audio/mpeg",
+  ".mp4": "video/mp4",
+  ".odt": "application/vnd.oasis.opendocument.text",
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".rtf": "application/rtf",
+  ".tif": "image/tiff",
+  ".tiff": "image/tiff",
+  ".txt": "text/plain",
+  ".xls": "application/vnd.ms-excel",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".xml": "application/xml",
+  ".zip": "application/zip",
+};
+
+/** Guess a mime type from a file name, falling back to `application/octet-stream` */
+export function guessMimeType(fileName: string): string {
+  return MIME_TYPES[path.extname(fileName).toLowerCase()] ?? "application/octet-stream";
+}
+
+/**
+ * Read every file part into memory once, so streams survive retries and the
+ * bytes can be hashed for logging. Non-file fields are returned unchanged.
+ */
+export async function resolveMultipart(
+  fields: Record<string, ApiMultipartValue>
+): Promise<Record<string, ApiMultipartValue>> {
+  const resolved: Record<string, ApiMultipartValue> = {};
+  for (const [field, value] of Object.entries(fields)) {
+    if (typeof value !== "object") {
+      resolved[field] = value;
+      continue;
+    }
+    const sources = [value.path, value.buffer, value.stream].filter((s) => s !== undefined);
+    if (sources.length !== 1) {
+      throw new Error(`multipart field "${field}" needs exactly one of path, buffer or stream`);
+    }
+    const buffer = value.stream
+      ? await readStream(value.stream)
+      : value.buffer ?? fs.readFileSync(value.path as string);
+    resolved[field] = toFilePart(field, { ...value, buffer });
+  }
+  return resolved;
+}
+
+/** Convert multipart fields into Playwright fetch `multipart` options */
+export function toFetchMultipart(
+  fields: Record<string, ApiMultipartValue>
+): Record<string, string | number | boolean | FetchFilePart> {
+  const multipart: Record<string, string | number | boolean | FetchFilePart> = {};
+  for (const [field, value] of Object.entries(fields)) {
+    multipart[field] = typeof value === "object" ? toFilePart(field, value) : value;
+  }
+  return multipart;
+}
+
+/** Log-safe view of multipart fields: values are redacted and files replaced by summaries */
+export function summariseMultipart(
+  fields: Record<string, ApiMultipartValue>,
+  state: RedactionState
+): Record<string, unknown> {
+  const summary: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(fields)) {
+    if (typeof value !== "object") {
+      summary[field] = sanitiseValue(value, state, field);
+      continue;
+    }
+    const part = toFilePart(field, value);
+    const fileSummary: BinarySummary & { fileName: string } = {
+      fileName: part.name,
+      ...summariseBinary(part.buffer, part.mimeType),
+    };
+    summary[field] = fileSummary;
+  }
+  return summary;
+}
+
+function toFilePart(field: string, file: ApiMultipartFile): FetchFilePart {
+  if (file.stream && !file.buffer) {
+    throw new Error(`multipart field "${field}" stream has not been read; use resolveMultipart first`);
+  }
+  const name = file.name ?? (file.path ? path.basename(file.path) : field);
+  return {
+    name,
+    mimeType: file.mimeType ?? guessMimeType(name),
+    buffer: file.buffer ?? fs.readFileSync(file.path as string),
+  };
+}
+
+async function readStream(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk as string));
+  }
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,235 @@
+import type { ApiResponsePayload } from "./api-client.js";
+
+type QueryValue = string | number | boolean | undefined;
+
+/** The parts of a request a strategy may change between pages */
+export interface PageRequest {
+  /** Replaces the request path; absolute URLs are allowed (next links) */
+  path?: string;
+  query?: Record<string, QueryValue>;
+  data?: unknown;
+}
+
+export interface PageState {
+  /** Zero-based index of the page just fetched */
+  pageIndex: number;
+  /** Items returned by the page just fetched */
+  pageItemCount: number;
+}
+
+/**
+ * Describes how to walk a paged API.
+ * `first` builds the first page request from the caller's request, `items` extracts the
+ * results of a page, and `next` returns the following request or undefined when done.
+ */
+export interface PaginationStrategy<TItem = unknown, TPage = unknown> {
+  first(initial: PageRequest): PageRequest;
+  items(response: ApiResponsePayload<TPage>): TItem[];
+  next(
+    response: ApiResponsePayload<TPage>,
+    current: PageRequest,
+    state: PageState
+  ): PageRequest | undefined;
+}
+
+/** Dot path (e.g. `hits.hits`) or extractor function */
+export type ValueSelector<T = unknown> = string | ((data: unknown) => T);
+
+export interface PageSizeStrategyOptions {
+  itemsPath?: ValueSelector<unknown[]>;
+  pageParam?: string;
+  sizeParam?: string;
+  pageSize?: number;
+  /** First page number (default: 0, Spring style) */
+  startPage?: number;
+  /** Optional total pages selector, e.g. `totalPages`; otherwise a short page ends the walk */
+  totalPagesPath?: ValueSelector<number>;
+}
+
+export interface OffsetLimitStrategyOptions {
+  itemsPath?: ValueSelector<unknown[]>;
+  offsetParam?: string;
+  limitParam?: string;
+  limit?: number;
+  totalPath?: ValueSelector<number>;
+}
+
+export interface CursorStrategyOptions {
+  itemsPath?: ValueSelector<unknown[]>;
+  /** Where to read the next cursor from the page body */
+  cursorPath: ValueSelector<string | undefined>;
+  cursorParam?: string;
+}
+
+export interface NextLinkStrategyOptions {
+  itemsPath?: ValueSelector<unknown[]>;
+  /** Where to read the next link from the body; defaults to the `Link: <...>; rel="next"` header */
+  nextPath?: ValueSelector<string | undefined>;
+}
+
+export interface ElasticsearchStrategyOptions {
+  /** Default `hits.hits`; CCD searchCases uses `cases` */
+  itemsPath?: ValueSelector<unknown[]>;
+  /** Default `hits.total.value`; CCD searchCases uses `total` */
+  totalPath?: ValueSelector<number>;
+  size?: number;
+}
+
+/** `?page=N&size=M` style paging (Spring Data, work allocation) */
+export function pageSizeStrategy<TItem = unknown>(
+  options?: PageSizeStrategyOptions
+): PaginationStrategy<TItem> {
+  const pageParam = options?.pageParam ?? "page";
+  const sizeParam = options?.sizeParam ?? "size";
+  const pageSize = positive(options?.pageSize ?? 50, "pageSize");
+  const startPage = options?.startPage ?? 0;
+  const itemsPath = options?.itemsPath ?? "content";
+
+  return {
+    first: (initial) => ({
+      ...initial,
+      query: { ...initial.query, [pageParam]: startPage, [sizeParam]: pageSize },
+    }),
+    items: (response) => selectItems<TItem>(response.data, itemsPath),
+    next: (response, current, state) => {
+      const totalPages = options?.totalPagesPath
+        ? select<number>(response.data, options.totalPagesPath)
+        : undefined;
+      const pageNumber = startPage + state.pageIndex;
+      const more =
+        typeof totalPages === "number"
+          ? state.pageIndex + 1 < totalPages
+          : state.pageItemCount >= pageSize;
+      if (!more) return undefined;
+      return { ...current, query: { ...current.query, [pageParam]: pageNumber + 1 } };
+    },
+  };
+}
+
+/** `?offset=N&limit=M` style paging */
+export function offsetLimitStrategy<TItem = unknown>(
+  options?: OffsetLimitStrategyOptions
+): PaginationStrategy<TItem> {
+  const offsetParam = options?.offsetParam ?? "offset";
+  const limitParam = options?.limitParam ?? "limit";
+  const limit = positive(options?.limit ?? 50, "limit");
+  const itemsPath = options?.itemsPath ?? "items";
+
+  return {
+    first: (initial) => ({
+      ...initial,
+      query: { ...initial.query, [offsetParam]: 0, [limitParam]: limit },
+    }),
+    items: (response) => selectItems<TItem>(response.data, itemsPath),
+    next: (response, current, state) => {
+      const nextOffset = Number(current.query?.[offsetParam] ?? 0) + state.pageItemCount;
+      const total = options?.totalPath ? select<number>(response.data, options.totalPath) : undefined;
+      const more =
+        typeof total === "number" ? nextOffset < total : state.pageItemCount >= limit;
+      if (!more || state.pageItemCount === 0) return undefined;
+      return { ...current, query: { ...current.query, [offsetParam]: nextOffset } };
+    },
+  };
+}
+
+/** Opaque cursor returned in the body and sent back as a query parameter */
+export function cursorStrategy<TItem = unknown>(
+  options: CursorStrategyOptions
+): PaginationStrategy<TItem> {
+  const cursorParam = options.cursorParam ?? "cursor";
+  const itemsPath = options.itemsPath ?? "items";
+
+  return {
+    first: (initial) => ({ ...initial }),
+    items: (response) => selectItems<TItem>(response.data, itemsPath),
+    next: (response, current) => {
+      const cursor = select<string | undefined>(response.data, options.cursorPath);
+      if (!cursor) return undefined;
+      return { ...current, query: { ...current.query, [cursorParam]: cursor } };
+    },
+  };
+}
+
+/**
+ * Follow "next" links from the body or the `Link` header; relative links are resolved
+ * against the URL of the page they came from
+ */
+export function nextLinkStrategy<TItem = unknown>(
+  options?: NextLinkStrategyOptions
+): PaginationStrategy<TItem> {
+  const itemsPath = options?.itemsPath ?? "items";
+
+  return {
+    first: (initial) => ({ ...initial }),
+    items: (response) => selectItems<TItem>(response.data, itemsPath),
+    next: (response, current) => {
+      const link = options?.nextPath
+        ? select<string | undefined>(response.data, options.nextPath)
+        : parseNextLink(response.headers["link"]);
+      if (!link) return undefined;
+      // Relative links resolve against the page that returned them (RFC 8288), not the
+      // client baseUrl. The link carries its own query string, so drop the original query
+      const nextRequest: PageRequest = { ...current, path: new URL(link, response.logEntry.url).toString() };
+      delete nextRequest.query;
+      return nextRequest;
+    },
+  };
+}
+
+/** Elasticsearch / CCD searchCases `from` + `size` in the request body */
+export function elasticsearchStrategy<TItem = unknown>(
+  options?: ElasticsearchStrategyOptions
+): PaginationStrategy<TItem> {
+  const size = positive(options?.size ?? 25, "size");
+  const itemsPath = options?.itemsPath ?? "hits.hits";
+  const totalPath = options?.totalPath ?? "hits.total.value";
+
+  const withBody = (request: PageRequest, from: number): PageRequest => ({
+    ...request,
+    data: { ...(request.data as Record<string, unknown> | undefined), from, size },
+  });
+
+  return {
+    first: (initial) => withBody(initial, 0),
+    items: (response) => selectItems<TItem>(response.data, itemsPath),
+    next: (response, current, state) => {
+      const from = Number((current.data as { from?: number } | undefined)?.from ?? 0);
+      const nextFrom = from + state.pageItemCount;
+      const total = select<number>(response.data, totalPath);
+      const more = typeof total === "number" ? nextFrom < total : state.pageItemCount >= size;
+      if (!more || state.pageItemCount === 0) return undefined;
+      return withBody(current, nextFrom);
+    },
+  };
+}
+
+function select<T>(data: unknown, selector: ValueSelector<T>): T | undefined {
+  if (typeof selector === "function") return selector(data);
+  let current: unknown = data;
+  for (const segment of selector.split(".")) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current as T | undefined;
+}
+
+function selectItems<TItem>(data: unknown, selector: ValueSelector<unknown[]>): TItem[] {
+  const items = select<unknown[]>(data, selector);
+  return Array.isArray(items) ? (items as TItem[]) : [];
+}
+
+function parseNextLink(header: string | undefined): string | undefined {
+  if (!header) return undefined;
+  for (const part of header.split(",")) {
+    const match = /<([^>]+)>\s*;\s*rel="?next"?/i.exec(part);
+    if (match?.[1]) return match[1];
+  }
+  return undefined;
+}
+
+function positive(value: number, name: string): number {
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`${name} must be a positive integer, got ${value}`);
+  }
+  return value;
+}
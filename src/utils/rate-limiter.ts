@@ -0,0 +1,153 @@
+export interface RateLimiterOptions {
+  requestsPerSecond?: number; // token refill rate; omit for no rate limit
+  burst?: number; // bucket size (default: requestsPerSecond, at least 1)
+  maxConcurrent?: number; // requests in flight; omit for no concurrency cap
+}
+
+export interface RateLimiterMetrics {
+  inFlight: number;
+  queued: number;
+  availableTokens?: number;
+  pausedUntil?: number;
+}
+
+/** Granted permit; call `release()` once the request has finished */
+export interface RateLimiterSlot {
+  waitedMs: number;
+  release(): void;
+}
+
+interface Waiter {
+  enqueuedAt: number;
+  resolve: (slot: RateLimiterSlot) => void;
+}
+
+/**
+ * Token-bucket rate limiter combined with a max-in-flight concurrency cap.
+ * Waiters are served first-in first-out, and `pause()` holds every waiter back
+ * until a server supplied `Retry-After` has elapsed.
+ *
+ * @example
+ * ```typescript
+ * const limiter = new RateLimiter({ requestsPerSecond: 5, burst: 10, maxConcurrent: 4 });
+ *
+ * const slot = await limiter.acquire();
+ * try {
+ *   await callService();
+ * } finally {
+ *   slot.release();
+ * }
+ * ```
+ */
+export class RateLimiter {
+  private readonly queue: Waiter[] = [];
+  private readonly ratePerMs: number | undefined;
+  private readonly burst: number;
+  private readonly maxConcurrent: number;
+  private tokens: number;
+  private lastRefill: number;
+  private inFlight = 0;
+  private pausedUntil = 0;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(options?: RateLimiterOptions) {
+    const requestsPerSecond = options?.requestsPerSecond;
+    const burst = options?.burst ?? Math.max(1, Math.floor(requestsPerSecond ?? 1));
+    const maxConcurrent = options?.maxConcurrent ?? Number.POSITIVE_INFINITY;
+
+    if (requestsPerSecond !== undefined && !(requestsPerSecond > 0)) {
+      throw new Error(`requestsPerSecond must be > 0, got ${requestsPerSecond}`);
+    }
+    if (burst < 1) {
+      throw new Error(`burst must be >= 1, got ${burst}`);
+    }
+    if (maxConcurrent < 1) {
+      throw new Error(`maxConcurrent must be >= 1, got ${maxConcurrent}`);
+    }
+
+    this.ratePerMs = requestsPerSecond === undefined ? undefined : requestsPerSecond / 1000;
+    this.burst = burst;
+    this.maxConcurrent = maxConcurrent;
+    this.tokens = burst;
+    this.lastRefill = Date.now();
+  }
+
+  /** Wait for a token and a free concurrency slot */
+  public acquire(): Promise<RateLimiterSlot> {
+    return new Promise((resolve) => {
+      this.queue.push({ enqueuedAt: Date.now(), resolve });
+      this.drain();
+    });
+  }
+
+  /** Hold back all waiters for `ms` (e.g. from a 429 `Retry-After`); never shortens an existing pause */
+  public pause(ms: number, now = Date.now()): void {
+    if (ms <= 0) return;
+    this.pausedUntil = Math.max(this.pausedUntil, now + ms);
+    if (this.queue.length > 0) this.reschedule(this.pausedUntil - now);
+  }
+
+  /** Snapshot style metrics for telemetry dashboards */
+  public getMetrics(now = Date.now()): RateLimiterMetrics {
+    const metrics: RateLimiterMetrics = {
+      inFlight: this.inFlight,
+      queued: this.queue.length,
+    };
+    if (this.ratePerMs !== undefined) {
+      this.refill(now);
+      metrics.availableTokens = Math.floor(this.tokens);
+    }
+    if (this.pausedUntil > now) {
+      metrics.pausedUntil = this.pausedUntil;
+    }
+    return metrics;
+  }
+
+  private drain(): void {
+    while (this.queue.length > 0) {
+      if (this.inFlight >= this.maxConcurrent) return; // release() drains again
+
+      const now = Date.now();
+      if (this.pausedUntil > now) {
+        this.reschedule(this.pausedUntil - now);
+        return;
+      }
+      if (this.ratePerMs !== undefined) {
+        this.refill(now);
+        if (this.tokens < 1) {
+          this.reschedule((1 - this.tokens) / this.ratePerMs);
+          return;
+        }
+        this.tokens -= 1;
+      }
+
+      const waiter = this.queue.shift() as Waiter;
+      this.inFlight++;
+      let released = false;
+      waiter.resolve({
+        waitedMs: now - waiter.enqueuedAt,
+        release: () => {
+          if (released) return;
+          released = true;
+          this.inFlight--;
+          this.drain();
+        },
+      });
+    }
+  }
+
+  private refill(now: number): void {
+    if (this.ratePerMs === undefined) return;
+    const elapsed = now - this.lastRefill;
+    this.tokens = Math.min(this.burst, this.tokens + elapsed * this.ratePerMs);
+    this.lastRefill = now;
+  }
+
+  private reschedule(delayMs: number): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.drain();
+    }, Math.max(1, Math.ceil(delayMs)));
+  }
+}
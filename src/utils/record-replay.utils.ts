@@ -0,0 +1,364 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { request, type APIRequestContext, type APIResponse } from "@playwright/test";
+import {
+  buildRedactionState,
+  redactString,
+  sanitiseHeaders,
+  sanitiseValue,
+  type RedactionOptions,
+  type RedactionState,
+} from "../logging/redaction.js";
+
+export type RecordReplayMode = "record" | "replay" | "passthrough";
+
+/**
+ * - `strict`: method, normalised URL (including query) and body hash must all match.
+ * - `lenient`: method and path must match; query and body are used only to pick the best candidate.
+ */
+export type ReplayMatching = "strict" | "lenient";
+
+export interface RecordReplayOptions {
+  /** Defaults to `API_RECORD_MODE` env var, then `passthrough` */
+  mode?: RecordReplayMode;
+  fixturesDir: string;
+  matching?: ReplayMatching;
+  /** Query parameters that vary per run (timestamps, nonces) and should not affect matching */
+  ignoreQueryParams?: string[];
+  /** Real context used in record/passthrough mode (default: `request.newContext()`) */
+  baseFactory?: () => Promise<APIRequestContext>;
+  /** Redaction applied to recorded headers and text bodies; pass the client's `redaction` options */
+  redaction?: RedactionOptions;
+}
+
+export interface RecordedFixture {
+  key: string;
+  request: {
+    method: string;
+    url: string;
+    bodyHash: string;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    body: string;
+    /** Set for bodies that are not valid UTF-8 (PDFs, images, zips); `body` is then base64 */
+    bodyEncoding?: "base64";
+  };
+  recordedAt: string;
+}
+
+type FetchOptions = Parameters<APIRequestContext["fetch"]>[1];
+
+/** Thrown in replay mode when no recorded fixture matches the request */
+export class ReplayMissError extends Error {
+  public readonly key: string;
+  public readonly candidates: string[];
+
+  constructor(key: string, candidates: string[]) {
+    const hint = candidates.length
+      ? `Nearest recorded requests:\n${candidates.map((c) => `  - ${c}`).join("\n")}`
+      : "No fixtures recorded in this directory.";
+    super(`No recorded fixture matches ${key}. ${hint}`);
+    this.name = "ReplayMissError";
+    this.key = key;
+    this.candidates = candidates;
+  }
+}
+
+/**
+ * Build a `requestFactory` for ApiClient that records traffic to disk or replays it offline.
+ *
+ * @example
+ * ```typescript
+ * const client = new ApiClient({
+ *   baseUrl: process.env.CCD_URL,
+ *   requestFactory: createRecordReplayFactory({
+ *     mode: process.env.CI ? "replay" : "record",
+ *     fixturesDir: "./fixtures/ccd",
+ *   }),
+ * });
+ * ```
+ */
+export function createRecordReplayFactory(
+  options: RecordReplayOptions
+): () => Promise<APIRequestContext> {
+  const mode = options.mode ?? resolveModeFromEnv();
+  const baseFactory = options.baseFactory ?? (() => request.newContext());
+
+  switch (mode) {
+    case "passthrough":
+      return baseFactory;
+    case "record":
+      return async () => createRecordingContext(await baseFactory(), options);
+    case "replay":
+      return async () => createReplayContext(options);
+  }
+}
+
+function resolveModeFromEnv(): RecordReplayMode {
+  const value = process.env.API_RECORD_MODE?.toLowerCase();
+  if (value === "record" || value === "replay") return value;
+  return "passthrough";
+}
+
+/** Build the fixture key: `METHOD normalised-url #bodyHash` */
+export function buildFixtureKey(
+  method: string,
+  url: string,
+  fetchOptions?: FetchOptions,
+  ignoreQueryParams: string[] = []
+): { key: string; normalisedUrl: string; bodyHash: string } {
+  const normalisedUrl = normaliseUrl(url, fetchOptions?.params, ignoreQueryParams);
+  const bodyHash = hashBody(
+    fetchOptions?.multipart !== undefined
+      ? multipartForHash(fetchOptions.multipart)
+      : fetchOptions?.form ?? fetchOptions?.data
+  );
+  return {
+    key: `${method.toUpperCase()} ${normalisedUrl} #${bodyHash}`,
+    normalisedUrl,
+    bodyHash,
+  };
+}
+
+function normaliseUrl(
+  url: string,
+  params: NonNullable<FetchOptions>["params"],
+  ignore: string[]
+): string {
+  const parsed = new URL(url);
+  if (params && typeof params === "object" && !(params instanceof URLSearchParams)) {
+    for (const [key, value] of Object.entries(params)) {
+      parsed.searchParams.append(key, String(value));
+    }
+  } else if (typeof params === "string" || params instanceof URLSearchParams) {
+    for (const [key, value] of new URLSearchParams(params)) {
+      parsed.searchParams.append(key, value);
+    }
+  }
+  const sorted = [...parsed.searchParams.entries()]
+    .filter(([key]) => !ignore.includes(key))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = new URLSearchParams(sorted).toString();
+  const pathname = parsed.pathname.replace(/\/+$/, "") || "/";
+  return `${parsed.protocol}//${parsed.host.toLowerCase()}${pathname}${query ? `?${query}` : ""}`;
+}
+
+function hashBody(body: unknown): string {
+  if (body === undefined || body === null) return "nobody";
+  const text = Buffer.isBuffer(body) ? body.toString("base64") : stableStringify(body);
+  return createHash("sha256").update(text).digest("hex").slice(0, 12);
+}
+
+/** Multipart fields with file parts reduced to name, type and content, so uploads hash by what they send */
+function multipartForHash(multipart: NonNullable<NonNullable<FetchOptions>["multipart"]>): unknown {
+  const entries: Array<[string, unknown]> =
+    multipart instanceof FormData ? [...multipart.entries()] : Object.entries(multipart);
+  const fields: Record<string, unknown> = {};
+  for (const [field, value] of entries) {
+    if (value instanceof fs.ReadStream) {
+      fields[field] = { path: String(value.path) };
+    } else if (value instanceof Blob) {
+      fields[field] = { type: value.type, size: value.size };
+    } else if (value && typeof value === "object" && "buffer" in value && Buffer.isBuffer(value.buffer)) {
+      const part = value as { name?: string; mimeType?: string; buffer: Buffer };
+      fields[field] = { name: part.name, mimeType: part.mimeType, buffer: part.buffer.toString("base64") };
+    } else {
+      fields[field] = value;
+    }
+  }
+  return { multipart: fields };
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "undefined";
+}
+
+function fixtureFileName(method: string, normalisedUrl: string, bodyHash: string): string {
+  const { pathname } = new URL(normalisedUrl);
+  const slug = pathname.replace(/[^a-zA-Z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 80) || "root";
+  const keyHash = createHash("sha256")
+    .update(`${normalisedUrl}#${bodyHash}`)
+    .digest("hex")
+    .slice(0, 10);
+  return `${method.toLowerCase()}-${slug}-${keyHash}.json`;
+}
+
+function createRecordingContext(
+  context: APIRequestContext,
+  options: RecordReplayOptions
+): APIRequestContext {
+  const redaction = buildRedactionState(options.redaction);
+  fs.mkdirSync(options.fixturesDir, { recursive: true });
+
+  const recordingFetch = async (
+    urlOrRequest: Parameters<APIRequestContext["fetch"]>[0],
+    fetchOptions?: FetchOptions
+  ): Promise<APIResponse> => {
+    const response = await context.fetch(urlOrRequest, fetchOptions);
+    const url = typeof urlOrRequest === "string" ? urlOrRequest : urlOrRequest.url();
+    const method = fetchOptions?.method ?? "GET";
+    const { key, normalisedUrl, bodyHash } = buildFixtureKey(
+      method,
+      url,
+      fetchOptions,
+      options.ignoreQueryParams
+    );
+    const body = await response.body();
+    const text = body.toString("utf8");
+    // Only bodies that survive a UTF-8 round trip are stored as text; the rest as base64
+    const isText = Buffer.from(text, "utf8").equals(body);
+    const fixture: RecordedFixture = {
+      key,
+      request: { method: method.toUpperCase(), url: normalisedUrl, bodyHash },
+      response: {
+        status: response.status(),
+        // Secrets (set-cookie, IDAM/S2S tokens) are masked as in logs; binary bodies are kept as-is
+        headers: sanitiseHeaders(response.headers(), redaction, "$.response.headers") ?? {},
+        body: isText ? redactBody(text, redaction) : body.toString("base64"),
+      },
+      recordedAt: new Date().toISOString(),
+    };
+    if (!isText) fixture.response.bodyEncoding = "base64";
+    fs.writeFileSync(
+      path.join(options.fixturesDir, fixtureFileName(method, normalisedUrl, bodyHash)),
+      JSON.stringify(fixture, null, 2),
+      "utf8"
+    );
+    return response;
+  };
+
+  return new Proxy(context, {
+    get(target, property, receiver) {
+      if (property === "fetch") return recordingFetch;
+      const value = Reflect.get(target, property, receiver) as unknown;
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+}
+
+/** JSON bodies are redacted by key and value, other text by value detectors only */
+function redactBody(text: string, state: RedactionState): string {
+  if (!state.enabled) return text;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return redactString(text, state);
+  }
+  return JSON.stringify(sanitiseValue(parsed, state, "responseBody", "$.response.body"));
+}
+
+function loadFixtures(fixturesDir: string): RecordedFixture[] {
+  if (!fs.existsSync(fixturesDir)) return [];
+  return fs
+    .readdirSync(fixturesDir)
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => JSON.parse(fs.readFileSync(path.join(fixturesDir, file), "utf8")) as RecordedFixture);
+}
+
+function createReplayContext(options: RecordReplayOptions): APIRequestContext {
+  const fixtures = loadFixtures(options.fixturesDir);
+  const matching = options.matching ?? "strict";
+
+  const replayFetch = async (
+    urlOrRequest: Parameters<APIRequestContext["fetch"]>[0],
+    fetchOptions?: FetchOptions
+  ): Promise<APIResponse> => {
+    const url = typeof urlOrRequest === "string" ? urlOrRequest : urlOrRequest.url();
+    const method = (fetchOptions?.method ?? "GET").toUpperCase();
+    const { key, normalisedUrl, bodyHash } = buildFixtureKey(
+      method,
+      url,
+      fetchOptions,
+      options.ignoreQueryParams
+    );
+    const match =
+      matching === "strict"
+        ? fixtures.find((fixture) => fixture.key === key)
+        : findLenientMatch(fixtures, method, normalisedUrl, bodyHash);
+    if (!match) {
+      throw new ReplayMissError(key, nearestCandidates(fixtures, key));
+    }
+    return createReplayResponse(normalisedUrl, match);
+  };
+
+  return {
+    fetch: replayFetch,
+    dispose: async () => undefined,
+  } as unknown as APIRequestContext;
+}
+
+function findLenientMatch(
+  fixtures: RecordedFixture[],
+  method: string,
+  normalisedUrl: string,
+  bodyHash: string
+): RecordedFixture | undefined {
+  const pathOf = (url: string) => url.split("?")[0];
+  const candidates = fixtures.filter(
+    (fixture) =>
+      fixture.request.method === method &&
+      pathOf(fixture.request.url) === pathOf(normalisedUrl)
+  );
+  return (
+    candidates.find((f) => f.request.url === normalisedUrl && f.request.bodyHash === bodyHash) ??
+    candidates.find((f) => f.request.url === normalisedUrl) ??
+    candidates.find((f) => f.request.bodyHash === bodyHash) ??
+    candidates[0]
+  );
+}
+
+function nearestCandidates(fixtures: RecordedFixture[], key: string, limit = 3): string[] {
+  return fixtures
+    .map((fixture) => ({ key: fixture.key, distance: levenshtein(fixture.key, key) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map((candidate) => candidate.key);
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        (previous[j] ?? 0) + 1,
+        (current[j - 1] ?? 0) + 1,
+        (previous[j - 1] ?? 0) + cost
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length] ?? 0;
+}
+
+function createReplayResponse(url: string, fixture: RecordedFixture): APIResponse {
+  const { status, headers } = fixture.response;
+  const body = Buffer.from(fixture.response.body, fixture.response.bodyEncoding === "base64" ? "base64" : "utf8");
+  return {
+    url: () => url,
+    status: () => status,
+    statusText: () => "",
+    ok: () => status >= 200 && status < 300,
+    headers: () => ({ ...headers }),
+    headersArray: () => Object.entries(headers).map(([name, value]) => ({ name, value })),
+    text: async () => body.toString("utf8"),
+    body: async () => Buffer.from(body),
+    json: async () => JSON.parse(body.toString("utf8")) as unknown,
+    dispose: async () => undefined,
+  } as unknown as APIResponse;
+}
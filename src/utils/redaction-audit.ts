@@ -0,0 +1,291 @@
+import fs from "node:fs";
+import path from "node:path";
+import { inflateRawSync } from "node:zlib";
+import {
+  REDACTED_VALUE,
+  buildRedactionState,
+  findSecrets,
+  maskValue,
+  shouldRedactNode,
+  type RedactionOptions,
+  type RedactionPathSegment,
+  type RedactionState,
+} from "../logging/redaction.js";
+
+export interface RedactionFinding {
+  /** File the secret was found in, relative to the working directory */
+  file: string;
+  /**
+   * Where in the file: `line 12:8`, a JSONPath such as `$.request.headers.authorization`,
+   * prefixed with the archive entry for zips (`trace.network line 3 $.snapshot...`)
+   */
+  location: string;
+  /** Value detector name, "bearer", "keyValue", or "key" for a sensitive key left unredacted */
+  detector: string;
+  /** First characters and length of the secret, never the secret itself */
+  preview: string;
+}
+
+export interface RedactionAuditOptions {
+  /** Same options as ApiClient/logger redaction; enable extra detectors or allowlist keys here */
+  redaction?: RedactionOptions;
+  /** Files larger than this (and larger archive entries) are skipped (default: 50 MB) */
+  maxFileBytes?: number;
+}
+
+export interface RedactionAuditReport {
+  roots: string[];
+  filesScanned: number;
+  findings: RedactionFinding[];
+  /** Findings per detector */
+  counts: Record<string, number>;
+  /** Files that could not be read or parsed; they are not counted as findings */
+  errors: Array<{ file: string; error: string }>;
+}
+
+/** Text formats scanned line by line (JSON lines are walked as JSON) */
+const TEXT_EXTENSIONS = new Set([".log", ".txt", ".jsonl", ".ndjson", ".network", ".trace", ".md", ".csv"]);
+const JSON_EXTENSIONS = new Set([".json", ".har"]);
+const HTML_EXTENSIONS = new Set([".html", ".htm"]);
+const ZIP_EXTENSIONS = new Set([".zip"]);
+
+/** The HTML reporter appends its data zip as `<template id="playwrightReportBase64">data:...</template>` */
+const HTML_REPORT_DATA =
+  /<template id=["']playwrightReportBase64["']>\s*data:application\/zip;base64,([A-Za-z0-9+/=\s]+)<\/template>/;
+
+/**
+ * Scan Playwright artefacts (`test-results`, `playwright-report`, winston log files) for
+ * secrets that escaped redaction, using the same key patterns and value detectors as the
+ * logger and ApiClient. Covers JSON attachments, JSON-lines logs, HTML report data and the
+ * network logs and resources inside trace zips.
+ *
+ * @example
+ * ```typescript
+ * const report = scanForSecrets(["test-results", "playwright-report"], {
+ *   redaction: { detectors: { email: true }, allowKeys: ["^token_type$"] },
+ * });
+ * if (report.findings.length) throw new Error(formatRedactionAuditReport(report));
+ * ```
+ */
+export function scanForSecrets(roots: string[], options?: RedactionAuditOptions): RedactionAuditReport {
+  const state = buildRedactionState({ ...options?.redaction, enabled: true });
+  const maxBytes = options?.maxFileBytes ?? 50 * 1024 * 1024;
+  const report: RedactionAuditReport = { roots, filesScanned: 0, findings: [], counts: {}, errors: [] };
+
+  for (const file of roots.flatMap((root) => listFiles(root))) {
+    const extension = path.extname(file).toLowerCase();
+    if (!isScannable(extension)) continue;
+    try {
+      if (fs.statSync(file).size > maxBytes) continue;
+      const findings: Omit<RedactionFinding, "file">[] = [];
+      scanContent(path.basename(file), fs.readFileSync(file), state, maxBytes, "", findings);
+      report.filesScanned++;
+      for (const finding of findings) {
+        report.findings.push({ file: path.relative(process.cwd(), file) || file, ...finding });
+        report.counts[finding.detector] = (report.counts[finding.detector] ?? 0) + 1;
+      }
+    } catch (error) {
+      report.errors.push({ file, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return report;
+}
+
+/** Plain-text report grouped by file, suitable for CI logs */
+export function formatRedactionAuditReport(report: RedactionAuditReport): string {
+  const lines = [
+    `Redaction audit: ${report.findings.length} finding(s) in ${report.filesScanned} scanned file(s)`,
+  ];
+  const counts = Object.entries(report.counts).sort((a, b) => b[1] - a[1]);
+  if (counts.length) {
+    lines.push(`By detector: ${counts.map(([detector, count]) => `${detector} ${count}`).join(", ")}`);
+  }
+  let currentFile: string | undefined;
+  for (const finding of report.findings) {
+    if (finding.file !== currentFile) {
+      currentFile = finding.file;
+      lines.push("", currentFile);
+    }
+    lines.push(`  ${finding.location}  [${finding.detector}]  ${finding.preview}`);
+  }
+  for (const { file, error } of report.errors) {
+    lines.push(`Could not scan ${file}: ${error}`);
+  }
+  return lines.join("\n");
+}
+
+function listFiles(root: string): string[] {
+  if (!fs.existsSync(root)) return [];
+  if (fs.statSync(root).isFile()) return [root];
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(root, { withFileTypes: true })) {
+    const full = path.join(root, entry.name);
+    if (entry.isDirectory()) files.push(...listFiles(full));
+    else if (entry.isFile()) files.push(full);
+  }
+  return files.sort();
+}
+
+function isScannable(extension: string): boolean {
+  return (
+    TEXT_EXTENSIONS.has(extension) ||
+    JSON_EXTENSIONS.has(extension) ||
+    HTML_EXTENSIONS.has(extension) ||
+    ZIP_EXTENSIONS.has(extension)
+  );
+}
+
+function scanContent(
+  name: string,
+  data: Buffer,
+  state: RedactionState,
+  maxBytes: number,
+  prefix: string,
+  findings: Omit<RedactionFinding, "file">[]
+): void {
+  const extension = path.extname(name).toLowerCase();
+  if (ZIP_EXTENSIONS.has(extension)) {
+    for (const entry of readZipEntries(data, maxBytes)) {
+      // Trace resources are stored without extensions; scan the ones that look like text
+      const entryExtension = path.extname(entry.name).toLowerCase();
+      if (isScannable(entryExtension) || (!entryExtension && isText(entry.data))) {
+        const entryName = entryExtension ? entry.name : `${entry.name}.txt`;
+        scanContent(entryName, entry.data, state, maxBytes, `${prefix}${entry.name} `, findings);
+      }
+    }
+    return;
+  }
+
+  const text = data.toString("utf8");
+  if (HTML_EXTENSIONS.has(extension)) {
+    const embedded = HTML_REPORT_DATA.exec(text)?.[1];
+    if (embedded) {
+      const data = Buffer.from(embedded.replace(/\s+/g, ""), "base64");
+      scanContent("report.zip", data, state, maxBytes, `${prefix}report-data `, findings);
+      return;
+    }
+  }
+  if (JSON_EXTENSIONS.has(extension)) {
+    try {
+      walkJson(JSON.parse(text), [], state, (location, detector, value) =>
+        findings.push({ location: `${prefix}${location}`, detector, preview: preview(value) })
+      );
+      return;
+    } catch {
+      // Not valid JSON after all: fall back to scanning it as text
+    }
+  }
+  text.split(/\r?\n/).forEach((line, index) => {
+    const lineLocation = `${prefix}line ${index + 1}`;
+    const trimmed = line.trim();
+    if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+      try {
+        walkJson(JSON.parse(trimmed), [], state, (location, detector, value) =>
+          findings.push({ location: `${lineLocation} ${location}`, detector, preview: preview(value) })
+        );
+        return;
+      } catch {
+        // Not a JSON line
+      }
+    }
+    for (const match of findSecrets(line, state)) {
+      findings.push({ location: `${lineLocation}:${match.index + 1}`, detector: match.detector, preview: preview(match.value) });
+    }
+  });
+}
+
+type Report = (location: string, detector: string, value: string) => void;
+
+function walkJson(value: unknown, segments: RedactionPathSegment[], state: RedactionState, report: Report): void {
+  if (typeof value === "string") {
+    const key = segments.at(-1);
+    const keyName = typeof key === "string" ? key : undefined;
+    if (value && !value.startsWith(REDACTED_VALUE) && shouldRedactNode(keyName, segments, state)) {
+      report(toJsonPath(segments), "key", value);
+      return;
+    }
+    for (const match of findSecrets(value, state)) {
+      report(toJsonPath(segments), match.detector, match.value);
+    }
+    return;
+  }
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => walkJson(item, [...segments, index], state, report));
+    return;
+  }
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    // Header arrays in traces and HARs: { name: "authorization", value: "Bearer ..." }
+    if (typeof record.name === "string" && typeof record.value === "string") {
+      const secret = record.value;
+      if (secret && !secret.startsWith(REDACTED_VALUE) && shouldRedactNode(record.name, [...segments, record.name], state)) {
+        report(toJsonPath([...segments, "value"]), "key", secret);
+        return;
+      }
+    }
+    for (const [key, child] of Object.entries(record)) {
+      walkJson(child, [...segments, key], state, report);
+    }
+  }
+}
+
+function toJsonPath(segments: RedactionPathSegment[]): string {
+  return (
+    "$" +
+    segments
+      .map((segment) =>
+        typeof segment === "number"
+          ? `[${segment}]`
+          : /^[A-Za-z_$][\w$]*$/.test(segment)
+            ? `.${segment}`
+            : `['${segment}']`
+      )
+      .join("")
+  );
+}
+
+function preview(value: string): string {
+  return `${maskValue(value, { keepFirst: 4, replacement: "…" })} (${value.length} chars)`;
+}
+
+function isText(data: Buffer): boolean {
+  return !data.subarray(0, 1024).includes(0);
+}
+
+/**
+ * Minimal reader for stored and deflated zip entries (Playwright traces and HTML report
+ * data). Zip64 archives are not supported.
+ */
+function readZipEntries(buffer: Buffer, maxBytes: number): Array<{ name: string; data: Buffer }> {
+  let end = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error("not a zip archive");
+
+  const entries: Array<{ name: string; data: Buffer }> = [];
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  for (let n = 0; n < count; n++) {
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) throw new Error("corrupt zip central directory");
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/") || size > maxBytes) continue;
+    const start = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const raw = buffer.subarray(start, start + compressedSize);
+    if (method === 0) entries.push({ name, data: raw });
+    else if (method === 8) entries.push({ name, data: inflateRawSync(raw) });
+  }
+  return entries;
+}
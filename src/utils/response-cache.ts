@@ -0,0 +1,141 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+
+/** How a GET was served: fresh from cache, from the network, or revalidated with a 304 */
+export type ApiCacheStatus = "hit" | "miss" | "revalidated";
+
+export interface CachedResponse {
+  key: string;
+  status: number;
+  headers: Record<string, string>;
+  body?: string;
+  storedAt: number;
+  expiresAt: number;
+  etag?: string;
+  lastModified?: string;
+}
+
+/** Storage backend for cached responses; methods may be sync or async */
+export interface ResponseCacheStore {
+  get(key: string): CachedResponse | undefined | Promise<CachedResponse | undefined>;
+  set(key: string, entry: CachedResponse): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
+
+export interface ApiCacheOptions {
+  /** Default: a per-client `MemoryCacheStore` */
+  store?: ResponseCacheStore;
+  /** How long a response is served without revalidation (default: 60000) */
+  ttlMs?: number;
+  /** Send If-None-Match / If-Modified-Since once an entry with validators expires (default: true) */
+  revalidate?: boolean;
+  /**
+   * Request headers that make responses differ, e.g. `["Authorization"]` for per-user data.
+   * By default responses are shared between callers (reference data).
+   */
+  varyHeaders?: string[];
+}
+
+/**
+ * In-process store. Entries are evicted oldest-first once `maxEntries` is reached.
+ */
+export class MemoryCacheStore implements ResponseCacheStore {
+  private readonly entries = new Map<string, CachedResponse>();
+
+  constructor(private readonly maxEntries = 500) {
+    if (maxEntries < 1) {
+      throw new Error(`maxEntries must be >= 1, got ${maxEntries}`);
+    }
+  }
+
+  public get(key: string): CachedResponse | undefined {
+    return this.entries.get(key);
+  }
+
+  public set(key: string, entry: CachedResponse): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  public delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  public clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * One JSON file per entry, so Playwright workers can share a cache directory.
+ * Writes go to a temp file and are renamed into place, so readers never see partial entries.
+ * `set-cookie` headers are dropped before writing.
+ */
+export class FileCacheStore implements ResponseCacheStore {
+  private readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = path.resolve(dir);
+    fs.mkdirSync(this.dir, { recursive: true });
+  }
+
+  public get(key: string): CachedResponse | undefined {
+    try {
+      const entry = JSON.parse(fs.readFileSync(this.fileFor(key), "utf8")) as CachedResponse;
+      return entry.key === key ? entry : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  public set(key: string, entry: CachedResponse): void {
+    const target = this.fileFor(key);
+    const temp = `${target}.${process.pid}.${Date.now()}.tmp`;
+    // Session cookies must not end up on disk
+    const headers = Object.fromEntries(
+      Object.entries(entry.headers).filter(([name]) => name.toLowerCase() !== "set-cookie")
+    );
+    fs.writeFileSync(temp, JSON.stringify({ ...entry, headers }), "utf8");
+    fs.renameSync(temp, target);
+  }
+
+  public delete(key: string): void {
+    fs.rmSync(this.fileFor(key), { force: true });
+  }
+
+  public clear(): void {
+    for (const file of fs.readdirSync(this.dir)) {
+      if (file.endsWith(".json")) fs.rmSync(path.join(this.dir, file), { force: true });
+    }
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.dir, `${createHash("sha256").update(key).digest("hex")}.json`);
+  }
+}
+
+/** Cache key: method, URL, sorted query and any `varyHeaders` values */
+export function buildCacheKey(
+  method: string,
+  url: string,
+  query: Record<string, string | number | boolean | undefined> | undefined,
+  headers: Record<string, string>,
+  varyHeaders: string[] = []
+): string {
+  const params = Object.entries(query ?? {})
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `${name}=${String(value)}`)
+    .sort();
+  const vary = varyHeaders.map((name) => {
+    const key = Object.keys(headers).find((header) => header.toLowerCase() === name.toLowerCase());
+    const value = key ? headers[key] ?? "" : "";
+    return `${name.toLowerCase()}=${createHash("sha256").update(value).digest("hex").slice(0, 16)}`;
+  });
+  return [`${method} ${url}`, params.join("&"), vary.join("&")].join(" | ");
+}
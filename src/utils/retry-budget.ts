@@ -0,0 +1,116 @@
+import type { Logger } from "winston";
+import { createLogger } from "../logging/logger.js";
+
+export interface RetryBudgetOptions {
+  ratio?: number; // retries allowed per call in the window (default: 0.2)
+  windowMs?: number; // sliding window length (default: 60000)
+  minRetries?: number; // retries always allowed per window, so low traffic can still retry (default: 10)
+  /** Where exhaustion is logged (default: a "retry-budget" logger) */
+  logger?: Logger;
+  /** Called once each time the budget becomes exhausted */
+  onExhausted?: (metrics: RetryBudgetMetrics) => void;
+}
+
+export interface RetryBudgetMetrics {
+  calls: number;
+  retries: number;
+  allowedRetries: number;
+  /** Retries refused since the budget was created */
+  rejected: number;
+  exhausted: boolean;
+}
+
+/**
+ * Caps retries at a fraction of the calls made in a sliding window, so retries from
+ * `withRetry`, `ApiClient` and Playwright test retries cannot multiply the load on a
+ * struggling environment. Share one instance per worker between everything that retries.
+ *
+ * @example
+ * ```typescript
+ * const budget = new RetryBudget({ ratio: 0.1, windowMs: 60_000 });
+ *
+ * const client = new ApiClient({ retry: { attempts: 3, budget } });
+ * await withRetry(() => idam.createUser(user), { attempts: 3, budget });
+ * ```
+ */
+export class RetryBudget {
+  private readonly ratio: number;
+  private readonly windowMs: number;
+  private readonly minRetries: number;
+  private readonly onExhausted: ((metrics: RetryBudgetMetrics) => void) | undefined;
+  private logger: Logger | undefined;
+  private calls: number[] = [];
+  private retries: number[] = [];
+  private rejected = 0;
+  private exhausted = false;
+
+  constructor(options?: RetryBudgetOptions) {
+    const ratio = options?.ratio ?? 0.2;
+    const windowMs = options?.windowMs ?? 60_000;
+    const minRetries = options?.minRetries ?? 10;
+    if (ratio <= 0) {
+      throw new Error(`ratio must be > 0, got ${ratio}`);
+    }
+    if (windowMs <= 0) {
+      throw new Error(`windowMs must be > 0, got ${windowMs}`);
+    }
+    if (minRetries < 0) {
+      throw new Error(`minRetries must be non-negative, got ${minRetries}`);
+    }
+    this.ratio = ratio;
+    this.windowMs = windowMs;
+    this.minRetries = minRetries;
+    this.logger = options?.logger;
+    this.onExhausted = options?.onExhausted;
+  }
+
+  /** Count an attempt (first call or retry) towards the window */
+  public recordCall(now = Date.now()): void {
+    // Prune here too, so a client that never retries does not grow the window unbounded
+    this.prune(now);
+    this.calls.push(now);
+  }
+
+  /** Reserve a retry; false when the budget is exhausted and the caller should give up */
+  public tryAcquireRetry(now = Date.now()): boolean {
+    this.prune(now);
+    if (this.retries.length < this.allowedRetries()) {
+      this.retries.push(now);
+      this.exhausted = false;
+      return true;
+    }
+    this.rejected++;
+    if (!this.exhausted) {
+      this.exhausted = true;
+      const metrics = this.getMetrics(now);
+      this.logger ??= createLogger({ serviceName: "retry-budget" });
+      this.logger.warn(
+        `Retry budget exhausted: ${metrics.retries} retries for ${metrics.calls} calls in the last ${this.windowMs}ms; further retries are refused`,
+        { retryBudget: metrics }
+      );
+      this.onExhausted?.(metrics);
+    }
+    return false;
+  }
+
+  public getMetrics(now = Date.now()): RetryBudgetMetrics {
+    this.prune(now);
+    return {
+      calls: this.calls.length,
+      retries: this.retries.length,
+      allowedRetries: this.allowedRetries(),
+      rejected: this.rejected,
+      exhausted: this.retries.length >= this.allowedRetries(),
+    };
+  }
+
+  private allowedRetries(): number {
+    return Math.max(this.minRetries, Math.floor(this.calls.length * this.ratio));
+  }
+
+  private prune(now: number): void {
+    const cutoff = now - this.windowMs;
+    this.calls = this.calls.filter((at) => at > cutoff);
+    this.retries = this.retries.filter((at) => at > cutoff);
+  }
+}
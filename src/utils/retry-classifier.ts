@@ -0,0 +1,225 @@
+/** Facts about the failed call that rules may use; `method` defaults to the ApiClientError log entry method */
+export interface RetryContext {
+  method?: string;
+  /** Treat POST/PATCH as safe to retry (default: false) */
+  retryNonIdempotent?: boolean;
+}
+
+/**
+ * One classification rule. Return `true` to retry, `false` to give up, or `undefined`
+ * to leave the decision to the next rule.
+ */
+export interface RetryRule {
+  name: string;
+  classify(error: unknown, context: RetryContext): boolean | undefined;
+}
+
+export interface RetryDecision {
+  retryable: boolean;
+  /** Name of the rule that decided, or "default" when none did */
+  rule: string;
+}
+
+/** Node/undici codes for transient network failures */
+const TRANSIENT_CODES = new Set([
+  "ECONNRESET",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "ENETUNREACH",
+  "ENETDOWN",
+  "EHOSTUNREACH",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+  "UND_ERR_BODY_TIMEOUT",
+  "UND_ERR_CLOSED",
+]);
+
+/** Codes where the request never left the machine, so retrying is safe for any method */
+const NOT_SENT_CODES = new Set(["ECONNREFUSED", "EAI_AGAIN", "UND_ERR_CONNECT_TIMEOUT"]);
+
+/** Codes that will not fix themselves on retry: bad host names and TLS problems */
+const PERMANENT_CODES = new Set([
+  "ENOTFOUND",
+  "ERR_INVALID_URL",
+  "CERT_HAS_EXPIRED",
+  "DEPTH_ZERO_SELF_SIGNED_CERT",
+  "SELF_SIGNED_CERT_IN_CHAIN",
+  "UNABLE_TO_VERIFY_LEAF_SIGNATURE",
+  "ERR_TLS_CERT_ALTNAME_INVALID",
+]);
+
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE", "TRACE"]);
+
+const KNOWN_CODES = [...TRANSIENT_CODES, ...NOT_SENT_CODES, ...PERMANENT_CODES];
+
+/**
+ * Built-in rules, in evaluation order:
+ * - `connection-not-established`: ECONNREFUSED / EAI_AGAIN, safe to retry for any method
+ * - `permanent-network-error`: ENOTFOUND, invalid URLs and certificate errors
+ * - `non-idempotent-method`: POST/PATCH are not retried unless `retryNonIdempotent`
+ * - `http-status`: 408, 429 and 5xx retry; other HTTP statuses do not
+ * - `transient-network-error`: ECONNRESET, ETIMEDOUT, UND_ERR_SOCKET and friends
+ * - `playwright-timeout`: Playwright `TimeoutError` / "Timeout 30000ms exceeded"
+ * - `api-client-network-error`: ApiClientError with status 0 (the fetch itself failed)
+ * - `message-heuristics`: "socket hang up", "fetch failed", "network" in the message
+ */
+export const BUILT_IN_RETRY_RULES: readonly RetryRule[] = [
+  {
+    name: "connection-not-established",
+    classify: (error) => (errorCodes(error).some((code) => NOT_SENT_CODES.has(code)) ? true : undefined),
+  },
+  {
+    name: "permanent-network-error",
+    classify: (error) => (errorCodes(error).some((code) => PERMANENT_CODES.has(code)) ? false : undefined),
+  },
+  {
+    name: "non-idempotent-method",
+    classify: (error, context) => {
+      const method = (context.method ?? logEntryMethod(error))?.toUpperCase();
+      if (!method || context.retryNonIdempotent) return undefined;
+      return IDEMPOTENT_METHODS.has(method) ? undefined : false;
+    },
+  },
+  {
+    name: "http-status",
+    classify: (error) => {
+      const status = httpStatus(error);
+      if (status === undefined) return undefined;
+      return status === 408 || status === 429 || (status >= 500 && status <= 599);
+    },
+  },
+  {
+    name: "transient-network-error",
+    classify: (error) => (errorCodes(error).some((code) => TRANSIENT_CODES.has(code)) ? true : undefined),
+  },
+  {
+    name: "playwright-timeout",
+    classify: (error) =>
+      errorChain(error).some(
+        (err) => err.name === "TimeoutError" || /Timeout \d+ms exceeded/i.test(String(err.message ?? ""))
+      )
+        ? true
+        : undefined,
+  },
+  {
+    name: "api-client-network-error",
+    classify: (error) => (isApiClientError(error) && error.status === 0 ? true : undefined),
+  },
+  {
+    name: "message-heuristics",
+    classify: (error) => {
+      const message = errorChain(error)
+        .map((err) => String(err.message ?? ""))
+        .join(" ")
+        .toLowerCase();
+      return /socket hang up|fetch failed|network|timed? ?out/.test(message) ? true : undefined;
+    },
+  },
+];
+
+/**
+ * Ordered registry of retry rules; the first rule that returns a boolean decides.
+ * Rules added with `use()` run before the built-ins, so teams can override them for
+ * service-specific errors.
+ *
+ * @example
+ * ```typescript
+ * retryClassifier.use({
+ *   name: "ccd-callback-timeout",
+ *   classify: (err) => (/callback .* timed out/i.test(String((err as Error).message)) ? true : undefined),
+ * });
+ *
+ * await withRetry(() => ccd.post("/cases", { data }), {
+ *   retryOn: (err) => retryClassifier.isRetryable(err, { method: "POST" }),
+ * });
+ * ```
+ */
+export class RetryClassifier {
+  private rules: RetryRule[];
+
+  constructor(rules: readonly RetryRule[] = BUILT_IN_RETRY_RULES) {
+    this.rules = [...rules];
+  }
+
+  /** Add a rule ahead of existing rules, or after them with `position: "last"` */
+  public use(rule: RetryRule, position: "first" | "last" = "first"): this {
+    this.remove(rule.name);
+    if (position === "first") this.rules.unshift(rule);
+    else this.rules.push(rule);
+    return this;
+  }
+
+  public remove(name: string): this {
+    this.rules = this.rules.filter((rule) => rule.name !== name);
+    return this;
+  }
+
+  public ruleNames(): string[] {
+    return this.rules.map((rule) => rule.name);
+  }
+
+  public classify(error: unknown, context: RetryContext = {}): RetryDecision {
+    for (const rule of this.rules) {
+      const retryable = rule.classify(error, context);
+      if (retryable !== undefined) return { retryable, rule: rule.name };
+    }
+    return { retryable: false, rule: "default" };
+  }
+
+  public isRetryable(error: unknown, context?: RetryContext): boolean {
+    return this.classify(error, context).retryable;
+  }
+}
+
+/** Shared classifier used by `isRetryableError`; register service-specific rules here */
+export const retryClassifier = new RetryClassifier();
+
+type ErrorLike = { name?: unknown; message?: unknown; code?: unknown; cause?: unknown };
+
+/** The error and its `cause` chain (bounded, in case of cycles) */
+function errorChain(error: unknown): ErrorLike[] {
+  const chain: ErrorLike[] = [];
+  let current = error;
+  while (current && typeof current === "object" && chain.length < 5) {
+    chain.push(current as ErrorLike);
+    current = (current as ErrorLike).cause;
+  }
+  return chain;
+}
+
+/** String `code`s on the chain plus known codes quoted in messages ("connect ECONNREFUSED ::1:3000") */
+function errorCodes(error: unknown): string[] {
+  const codes: string[] = [];
+  for (const err of errorChain(error)) {
+    if (typeof err.code === "string") codes.push(err.code);
+    const message = String(err.message ?? "");
+    codes.push(...KNOWN_CODES.filter((code) => new RegExp(`\\b${code}\\b`).test(message)));
+  }
+  return codes;
+}
+
+function isApiClientError(error: unknown): error is { status: number; logEntry: { method?: string } } {
+  return (
+    !!error &&
+    typeof error === "object" &&
+    typeof (error as { status?: unknown }).status === "number" &&
+    typeof (error as { logEntry?: unknown }).logEntry === "object"
+  );
+}
+
+function logEntryMethod(error: unknown): string | undefined {
+  return isApiClientError(error) ? error.logEntry.method : undefined;
+}
+
+/** HTTP status from `status`, `statusCode` or a numeric `code`; ApiClientError status 0 is not HTTP */
+function httpStatus(error: unknown): number | undefined {
+  if (!error || typeof error !== "object") return undefined;
+  const candidate = error as { status?: unknown; statusCode?: unknown; code?: unknown };
+  const status = [candidate.status, candidate.statusCode, candidate.code].find(
+    (value): value is number => typeof value === "number"
+  );
+  return status !== undefined && status >= 100 ? status : undefined;
+}
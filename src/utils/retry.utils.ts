@@ -1,3 +1,7 @@
+import { buildRedactionState, sanitiseValue } from "../logging/redaction.js";
+import type { RetryBudget } from "./retry-budget.js";
+import { retryClassifier } from "./retry-classifier.js";
+
 export type RetryCondition = (error: unknown) => boolean;
 
 // Default retry configuration constants
@@ -6,49 +10,86 @@ export const DEFAULT_RETRY_BASE_MS = 200 as const;
 export const DEFAULT_RETRY_MAX_MS = 2000 as const;
 export const DEFAULT_RETRY_MAX_ELAPSED_MS = 15000 as const;
 
+/**
+ * Whether an error looks transient: network failures (Node/undici codes, Playwright timeouts,
+ * ApiClientError status 0), 408/429/5xx, never POST/PATCH unless the connection was refused.
+ * Delegates to `retryClassifier`, so rules registered there apply here too.
+ */
 export function isRetryableError(error: unknown): boolean {
-  // Basic heuristics: retry network errors and HTTP 5xx or 429
-  if (error && typeof error === "object") {
-    const anyErr = error as { status?: unknown; code?: unknown; message?: unknown };
-    const status = anyErr.status ?? anyErr.code;
-    // Playwright/Node fetch network codes often expose via error.message or code
-    if (typeof status === "number") {
-      return status === 429 || (status >= 500 && status <= 599);
-    }
-    const msg = String(anyErr.message ?? "").toLowerCase();
-    if (
-      msg.includes("ecconnreset") ||
-      msg.includes("econnreset") ||
-      msg.includes("etimedout") ||
-      msg.includes("timeout") ||
-      msg.includes("fetch failed") ||
-      msg.includes("network")
-    ) {
-      return true;
-    }
-  }
-  return false;
+  return retryClassifier.isRetryable(error);
+}
+
+/**
+ * How the backoff delay is randomised:
+ * - `full`: random between 0 and the exponential delay
+ * - `equal`: half the exponential delay plus a random half
+ * - `decorrelated`: random between `baseMs` and three times the previous delay
+ *
+ * When no strategy is set, up to 50ms of jitter is added to the exponential delay.
+ */
+export type RetryJitter = "full" | "equal" | "decorrelated";
+
+export interface RetryOptions {
+  /** Maximum number of attempts (default: 3) */
+  attempts?: number;
+  /** Base delay in milliseconds for exponential backoff (default: 200) */
+  baseMs?: number;
+  /** Maximum delay between retries (default: 2000) */
+  maxMs?: number;
+  /** Maximum total time for all retries (default: 15000) */
+  maxElapsedMs?: number;
+  jitter?: RetryJitter;
+  /** Whether to retry after `attempt` (1-based) failed with `error` (default: always retry) */
+  retryOn?: (error: unknown, attempt: number) => boolean;
+  /** Called before each retry sleep; awaited, so it can log or refresh state */
+  onRetry?: (attempt: number, error: unknown, delayMs: number) => void | Promise<void>;
+  /** Abort pending retries; the signal's reason is thrown */
+  signal?: AbortSignal;
+  /** Shared budget; once exhausted, the last error is thrown instead of retrying */
+  budget?: RetryBudget;
+  /** Resolve with a `RetrySummary` instead of the bare result */
+  summary?: boolean;
+}
+
+export interface RetrySummary<T> {
+  result: T;
+  attempts: number;
+  /** Time spent sleeping between attempts */
+  totalDelayMs: number;
+  elapsedMs: number;
 }
 
 /**
  * Retry a function with exponential backoff and jitter.
  * Supports custom retry conditions and honors Retry-After headers.
- * 
+ *
+ * Accepts either an options object or the original positional parameters.
+ *
  * @param fn - The async function to retry
- * @param attempts - Maximum number of attempts (default: 3)
+ * @param attempts - Maximum number of attempts (default: 3), or a `RetryOptions` object
  * @param baseMs - Base delay in milliseconds for exponential backoff (default: 200)
  * @param maxMs - Maximum delay between retries (default: 2000)
  * @param maxElapsedMs - Maximum total time for all retries (default: 15000)
  * @param shouldRetry - Predicate to determine if error is retryable (default: always retry)
- * @returns Promise resolving to the function result
- * @throws The last error if all retries are exhausted
+ * @returns Promise resolving to the function result, or a `RetrySummary` when `summary: true`
+ * @throws The last error if all retries are exhausted, or the abort reason if `signal` aborts
  * 
  * @example
  * ```typescript
  * // Simple retry with defaults
  * const result = await withRetry(() => apiClient.get('/data'));
  * 
- * // Retry only retryable errors with custom config
+ * // Options object with hooks, jitter and cancellation
+ * const { result, attempts, totalDelayMs } = await withRetry(() => apiClient.get('/data'), {
+ *   attempts: 5,
+ *   jitter: "full",
+ *   retryOn: (err, attempt) => attempt < 3 || isRetryableError(err),
+ *   onRetry: (attempt, err, delayMs) => logger.warn(`attempt ${attempt} failed, retrying in ${delayMs}ms`),
+ *   signal: AbortSignal.timeout(30_000),
+ *   summary: true,
+ * });
+ * 
+ * // Positional form
  * const result = await withRetry(
  *   () => apiClient.get('/data'),
  *   5,  // attempts
@@ -57,27 +98,46 @@ export function isRetryableError(error: unknown): boolean {
  *   30000, // max elapsed
  *   isRetryableError // custom condition
  * );
- * 
- * // Honor Retry-After headers (retryAfterMs on error object)
- * const result = await withRetry(
- *   () => apiClient.get('/rate-limited'),
- *   3,
- *   200,
- *   2000,
- *   15000,
- *   (err) => isRetryableError(err)
- * );
  * ```
  */
 export async function withRetry<T>(
   fn: () => Promise<T>,
-  attempts: number = DEFAULT_RETRY_ATTEMPTS,
+  options: RetryOptions & { summary: true }
+): Promise<RetrySummary<T>>;
+export async function withRetry<T>(fn: () => Promise<T>, options?: RetryOptions): Promise<T>;
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  attempts?: number,
+  baseMs?: number,
+  maxMs?: number,
+  maxElapsedMs?: number,
+  shouldRetry?: RetryCondition
+): Promise<T>;
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  attemptsOrOptions: number | RetryOptions = DEFAULT_RETRY_ATTEMPTS,
   baseMs: number = DEFAULT_RETRY_BASE_MS,
   maxMs: number = DEFAULT_RETRY_MAX_MS,
   maxElapsedMs: number = DEFAULT_RETRY_MAX_ELAPSED_MS,
   // Default: retry on any error. Callers can pass a stricter predicate.
   shouldRetry: RetryCondition = () => true
-): Promise<T> {
+): Promise<T | RetrySummary<T>> {
+  const options: RetryOptions =
+    typeof attemptsOrOptions === "number"
+      ? { attempts: attemptsOrOptions, baseMs, maxMs, maxElapsedMs, retryOn: shouldRetry }
+      : attemptsOrOptions;
+  const summary = await runWithRetry(fn, options);
+  return options.summary ? summary : summary.result;
+}
+
+async function runWithRetry<T>(fn: () => Promise<T>, options: RetryOptions): Promise<RetrySummary<T>> {
+  const attempts = options.attempts ?? DEFAULT_RETRY_ATTEMPTS;
+  const baseMs = options.baseMs ?? DEFAULT_RETRY_BASE_MS;
+  const maxMs = options.maxMs ?? DEFAULT_RETRY_MAX_MS;
+  const maxElapsedMs = options.maxElapsedMs ?? DEFAULT_RETRY_MAX_ELAPSED_MS;
+  const retryOn = options.retryOn ?? (() => true);
+  const signal = options.signal;
+
   // Validate parameters
   if (attempts < 1) {
     throw new Error(`retry attempts must be >= 1, got ${attempts}`);
@@ -90,23 +150,33 @@ export async function withRetry<T>(
   }
   
   let lastError: unknown;
+  let totalDelayMs = 0;
+  let previousDelay = baseMs;
   const start = Date.now();
   for (let i = 0; i < attempts; i++) {
+    signal?.throwIfAborted();
+    options.budget?.recordCall();
     try {
-      return await fn();
+      const result = await fn();
+      return { result, attempts: i + 1, totalDelayMs, elapsedMs: Date.now() - start };
     } catch (e) {
       lastError = e;
       if (i === attempts - 1) break;
-      if (!shouldRetry(e)) break;
+      if (!retryOn(e, i + 1)) break;
       const elapsed = Date.now() - start;
       if (elapsed >= maxElapsedMs) break;
-      const jitter = Math.random() * 50;
-      const backoff = Math.min(baseMs * Math.pow(2, i) + jitter, maxMs);
-      const retryAfter = parseRetryAfterMs(e);
-      const delay = Math.max(backoff, retryAfter ?? 0);
+      if (options.budget && !options.budget.tryAcquireRetry()) break;
+      const backoff =
+        options.jitter === undefined
+          ? computeRetryDelay(i, baseMs, maxMs, parseRetryAfterMs(e))
+          : Math.max(computeJitteredDelay(options.jitter, i, baseMs, maxMs, previousDelay), parseRetryAfterMs(e) ?? 0);
       const remaining = maxElapsedMs - elapsed;
       if (remaining <= 0) break;
-      await new Promise((r) => setTimeout(r, Math.min(delay, remaining)));
+      const delay = Math.min(backoff, remaining);
+      previousDelay = delay;
+      await options.onRetry?.(i + 1, e, Math.round(delay));
+      await sleep(delay, signal);
+      totalDelayMs += delay;
     }
   }
   throw lastError instanceof Error
@@ -114,7 +184,201 @@ export async function withRetry<T>(
     : new Error(`Retry failed: ${String(lastError)}`);
 }
 
-function parseRetryAfterMs(error: unknown): number | undefined {
+/**
+ * Backoff for the named jitter strategy, capped at `maxMs`.
+ *
+ * @param previousDelayMs - Delay used before the previous retry (`decorrelated` only)
+ */
+export function computeJitteredDelay(
+  strategy: RetryJitter,
+  retryIndex: number,
+  baseMs: number,
+  maxMs: number,
+  previousDelayMs: number = baseMs
+): number {
+  const exponential = Math.min(baseMs * Math.pow(2, retryIndex), maxMs);
+  switch (strategy) {
+    case "full":
+      return Math.random() * exponential;
+    case "equal":
+      return exponential / 2 + Math.random() * (exponential / 2);
+    case "decorrelated":
+      return Math.min(maxMs, baseMs + Math.random() * Math.max(previousDelayMs * 3 - baseMs, 0));
+  }
+}
+
+/** Sleep that rejects with the signal's reason as soon as it aborts */
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export interface PollOptions {
+  /** Delay before the second attempt in milliseconds (default: 1000) */
+  interval?: number;
+  /** Give up after this many milliseconds (default: 30000) */
+  timeout?: number;
+  /** Multiplier applied to the interval after each attempt (default: 1, i.e. fixed interval) */
+  backoff?: number;
+  /** Upper bound for the grown interval (default: 10000) */
+  maxInterval?: number;
+  /** What the predicate checks, for the timeout message (default: the predicate's name or source) */
+  description?: string;
+  /** Keep polling when `fn` throws, e.g. a 404 before a case is indexed (default: false) */
+  ignoreErrors?: boolean | ((error: unknown) => boolean);
+  /** Called after every attempt */
+  onAttempt?: (attempt: PollAttempt<unknown>) => void;
+  signal?: AbortSignal;
+}
+
+export interface PollAttempt<T> {
+  attempt: number;
+  elapsedMs: number;
+  satisfied: boolean;
+  value?: T;
+  error?: unknown;
+}
+
+/** Thrown by `pollUntil` when the predicate is still unmet at the timeout */
+export class PollTimeoutError<T = unknown> extends Error {
+  public readonly attempts: PollAttempt<T>[];
+  public readonly description: string;
+  public readonly timeoutMs: number;
+  public readonly lastValue: T | undefined;
+  public readonly lastError: unknown;
+
+  constructor(description: string, timeoutMs: number, attempts: PollAttempt<T>[]) {
+    const last = attempts[attempts.length - 1];
+    const observed =
+      last?.error !== undefined
+        ? `last error: ${last.error instanceof Error ? last.error.message : String(last.error)}`
+        : `last value: ${previewValue(last?.value)}`;
+    super(
+      `Timed out after ${timeoutMs}ms (${attempts.length} attempts) waiting for ${description}; ${observed}`
+    );
+    this.name = "PollTimeoutError";
+    this.attempts = attempts;
+    this.description = description;
+    this.timeoutMs = timeoutMs;
+    this.lastValue = last?.value;
+    this.lastError = last?.error;
+  }
+}
+
+/**
+ * Call `fn` until `predicate` accepts its value, for backends that catch up asynchronously
+ * (CCD search indexing, work-allocation tasks, notifications).
+ *
+ * @param fn - Produces the value to check, e.g. an ApiClient call
+ * @param predicate - Returns true once the value is acceptable; may be async
+ * @param options {@link PollOptions}
+ * @returns The first value that satisfied the predicate
+ * @throws PollTimeoutError with every attempt and a redacted preview of the last value
+ *
+ * @example
+ * ```typescript
+ * const search = await pollUntil(
+ *   () => ccd.post<{ total: number }>("/searchCases", { query: { ctid: "Asylum" }, data: esQuery }),
+ *   (res) => res.data.total > 0,
+ *   { interval: 2_000, timeout: 60_000, backoff: 1.5, description: "case to be indexed" }
+ * );
+ * ```
+ */
+export async function pollUntil<T>(
+  fn: () => Promise<T>,
+  predicate: (value: T) => boolean | Promise<boolean>,
+  options: PollOptions = {}
+): Promise<T> {
+  const interval = options.interval ?? 1_000;
+  const timeout = options.timeout ?? 30_000;
+  const backoff = options.backoff ?? 1;
+  const maxInterval = options.maxInterval ?? 10_000;
+  if (interval < 0 || timeout <= 0) {
+    throw new Error("poll interval must be non-negative and timeout must be > 0");
+  }
+  if (backoff < 1) {
+    throw new Error(`poll backoff must be >= 1, got ${backoff}`);
+  }
+  const description = options.description ?? describePredicate(predicate);
+  const ignoreErrors = options.ignoreErrors ?? false;
+  const attempts: PollAttempt<T>[] = [];
+  const start = Date.now();
+
+  for (let attempt = 1; ; attempt++) {
+    options.signal?.throwIfAborted();
+    const record: PollAttempt<T> = { attempt, elapsedMs: 0, satisfied: false };
+    try {
+      record.value = await fn();
+      record.satisfied = await predicate(record.value);
+    } catch (error) {
+      const ignore = typeof ignoreErrors === "function" ? ignoreErrors(error) : ignoreErrors;
+      if (!ignore) throw error;
+      record.error = error;
+    }
+    record.elapsedMs = Date.now() - start;
+    attempts.push(record);
+    options.onAttempt?.(record);
+    if (record.satisfied) return record.value as T;
+
+    const remaining = timeout - record.elapsedMs;
+    if (remaining <= 0) {
+      throw new PollTimeoutError<T>(description, timeout, attempts);
+    }
+    const delay = Math.min(interval * Math.pow(backoff, attempt - 1), Math.max(maxInterval, interval));
+    await sleep(Math.min(delay, remaining), options.signal);
+  }
+}
+
+function describePredicate(predicate: (value: never) => unknown): string {
+  if (predicate.name) return predicate.name;
+  const source = predicate.toString().replace(/\s+/g, " ");
+  return source.length > 120 ? `${source.slice(0, 120)}…` : source;
+}
+
+/** Redacted, truncated preview; ApiClient payloads are reduced to status and data */
+function previewValue(value: unknown): string {
+  let shown = value;
+  if (value && typeof value === "object" && "logEntry" in value && "status" in value) {
+    const payload = value as { status: unknown; data?: unknown };
+    shown = { status: payload.status, data: payload.data };
+  }
+  const text = JSON.stringify(sanitiseValue(shown, buildRedactionState())) ?? String(shown);
+  return text.length > 500 ? `${text.slice(0, 500)}…` : text;
+}
+
+/**
+ * Exponential backoff with a small jitter, raised to any server supplied Retry-After.
+ *
+ * @param retryIndex - Zero-based index of the retry (0 for the first retry)
+ * @param baseMs - Base delay in milliseconds
+ * @param maxMs - Upper bound for the backoff portion of the delay
+ * @param retryAfterMs - Optional Retry-After hint (already capped) that overrides shorter backoffs
+ */
+export function computeRetryDelay(
+  retryIndex: number,
+  baseMs: number,
+  maxMs: number,
+  retryAfterMs?: number
+): number {
+  const jitter = Math.random() * 50;
+  const backoff = Math.min(baseMs * Math.pow(2, retryIndex) + jitter, maxMs);
+  return Math.max(backoff, retryAfterMs ?? 0);
+}
+
+export function parseRetryAfterMs(error: unknown): number | undefined {
   if (!error || typeof error !== "object") return undefined;
   const retryAfterMs = (error as { retryAfterMs?: unknown }).retryAfterMs;
   if (typeof retryAfterMs === "number" && retryAfterMs > 0) {
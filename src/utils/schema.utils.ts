@@ -0,0 +1,259 @@
+type JsonSchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "object"
+  | "array"
+  | "null";
+
+/**
+ * Subset of JSON Schema (draft 7 keywords) understood by the built-in validator.
+ * Unknown keywords such as `format` or `$schema` are ignored.
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  [keyword: string]: unknown;
+}
+
+/** Generic validator contract so zod-like libraries (`schema.parse(data)`) plug straight in */
+export interface SchemaValidator<T = unknown> {
+  parse(data: unknown): T;
+}
+
+export type ResponseSchema<T = unknown> = JsonSchema | SchemaValidator<T>;
+
+export interface SchemaIssue {
+  /** JSONPath-style location of the failure, e.g. `$.case_data.applicants[0].dob` */
+  path: string;
+  message: string;
+}
+
+export interface SchemaValidationResult<T> {
+  valid: boolean;
+  data: T;
+  issues: SchemaIssue[];
+}
+
+export function isSchemaValidator<T>(
+  schema: ResponseSchema<T>
+): schema is SchemaValidator<T> {
+  return typeof (schema as { parse?: unknown }).parse === "function";
+}
+
+/**
+ * Validate data against a JSON Schema or a `{ parse }` validator.
+ * For validators, the parsed (possibly transformed) value is returned as `data`.
+ */
+export function validateSchema<T>(
+  schema: ResponseSchema<T>,
+  data: unknown
+): SchemaValidationResult<T> {
+  if (isSchemaValidator(schema)) {
+    try {
+      return { valid: true, data: schema.parse(data), issues: [] };
+    } catch (error) {
+      return { valid: false, data: data as T, issues: extractIssues(error) };
+    }
+  }
+  const issues = validateJsonSchema(schema, data);
+  return { valid: issues.length === 0, data: data as T, issues };
+}
+
+/** Validate a value against the supported JSON Schema subset */
+export function validateJsonSchema(
+  schema: JsonSchema,
+  value: unknown,
+  path = "$"
+): SchemaIssue[] {
+  if (schema.type !== undefined) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!allowed.some((type) => matchesType(type, value))) {
+      return [
+        { path, message: `expected ${allowed.join(" | ")}, got ${describeType(value)}` },
+      ];
+    }
+  }
+
+  const issues: SchemaIssue[] = [];
+  if (schema.const !== undefined && !deepEqual(schema.const, value)) {
+    issues.push({ path, message: `expected constant ${JSON.stringify(schema.const)}` });
+  }
+  if (schema.enum && !schema.enum.some((candidate) => deepEqual(candidate, value))) {
+    issues.push({
+      path,
+      message: `expected one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`,
+    });
+  }
+
+  if (typeof value === "string") {
+    issues.push(...validateString(schema, value, path));
+  } else if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+  } else if (Array.isArray(value)) {
+    issues.push(...validateArray(schema, value, path));
+  } else if (isPlainObject(value)) {
+    issues.push(...validateObject(schema, value, path));
+  }
+
+  issues.push(...validateCombinators(schema, value, path));
+  return issues;
+}
+
+function validateString(schema: JsonSchema, value: string, path: string): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    issues.push({ path, message: `length must be >= ${schema.minLength}` });
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    issues.push({ path, message: `length must be <= ${schema.maxLength}` });
+  }
+  if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+    issues.push({ path, message: `must match pattern ${schema.pattern}` });
+  }
+  return issues;
+}
+
+function validateArray(schema: JsonSchema, value: unknown[], path: string): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    issues.push({ path, message: `must contain >= ${schema.minItems} items` });
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    issues.push({ path, message: `must contain <= ${schema.maxItems} items` });
+  }
+  if (schema.items) {
+    const itemSchema = schema.items;
+    value.forEach((item, index) => {
+      issues.push(...validateJsonSchema(itemSchema, item, `${path}[${index}]`));
+    });
+  }
+  return issues;
+}
+
+function validateObject(
+  schema: JsonSchema,
+  value: Record<string, unknown>,
+  path: string
+): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  for (const key of schema.required ?? []) {
+    if (!(key in value)) {
+      issues.push({ path: joinPath(path, key), message: "is required" });
+    }
+  }
+  const properties = schema.properties ?? {};
+  for (const [key, propertyValue] of Object.entries(value)) {
+    const propertySchema = properties[key];
+    if (propertySchema) {
+      issues.push(...validateJsonSchema(propertySchema, propertyValue, joinPath(path, key)));
+    } else if (schema.additionalProperties === false) {
+      issues.push({ path: joinPath(path, key), message: "is not allowed" });
+    } else if (typeof schema.additionalProperties === "object") {
+      issues.push(
+        ...validateJsonSchema(schema.additionalProperties, propertyValue, joinPath(path, key))
+      );
+    }
+  }
+  return issues;
+}
+
+function validateCombinators(schema: JsonSchema, value: unknown, path: string): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  for (const subSchema of schema.allOf ?? []) {
+    issues.push(...validateJsonSchema(subSchema, value, path));
+  }
+  if (schema.anyOf) {
+    const matches = schema.anyOf.some(
+      (subSchema) => validateJsonSchema(subSchema, value, path).length === 0
+    );
+    if (!matches) {
+      issues.push({ path, message: "does not match any schema in anyOf" });
+    }
+  }
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter(
+      (subSchema) => validateJsonSchema(subSchema, value, path).length === 0
+    ).length;
+    if (matches !== 1) {
+      issues.push({ path, message: `must match exactly one schema in oneOf (matched ${matches})` });
+    }
+  }
+  return issues;
+}
+
+function matchesType(type: JsonSchemaType, value: unknown): boolean {
+  switch (type) {
+    case "null":
+      return value === null;
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isPlainObject(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function joinPath(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Normalise errors thrown by `{ parse }` validators (zod-style `issues` are understood) */
+function extractIssues(error: unknown): SchemaIssue[] {
+  const issues = (error as { issues?: unknown })?.issues;
+  if (Array.isArray(issues) && issues.length > 0) {
+    return issues.map((issue: { path?: unknown; message?: unknown }) => ({
+      path: Array.isArray(issue.path)
+        ? issue.path.reduce<string>(
+            (acc, segment) =>
+              typeof segment === "number" ? `${acc}[${segment}]` : joinPath(acc, String(segment)),
+            "$"
+          )
+        : "$",
+      message: String(issue.message ?? "is invalid"),
+    }));
+  }
+  return [
+    { path: "$", message: error instanceof Error ? error.message : String(error) },
+  ];
+}
@@ -6,7 +6,6 @@ import {
 } from "./api-client.js";
 import { createChildLogger, createLogger } from "../logging/logger.js";
 import { serialiseApiBody } from "./error.utils.js";
-import { withRetry, isRetryableError } from "./retry.utils.js";
 
 export interface ServiceTokenParams {
   microservice: string;
@@ -87,21 +86,20 @@ export class ServiceAuthUtils {
         );
       }
 
-      // Optional retry/backoff controlled via env vars
-      const attempts = Number(process.env.S2S_RETRY_ATTEMPTS ?? 1);
-      const baseMs = Number(process.env.S2S_RETRY_BASE_MS ?? 200);
-      const exec = async () =>
-        this.client.post<string>("", {
-          data: {
-            microservice: payload.microservice,
-          },
-          headers,
-          responseType: "text",
-        });
-
-      const response = attempts > 1
-        ? await withRetry(exec, attempts, baseMs, 2000, 15000, isRetryableError)
-        : await exec();
+      // Optional retry/backoff controlled via env vars (applied by the ApiClient retry policy)
+      const response = await this.client.post<string>("", {
+        data: {
+          microservice: payload.microservice,
+        },
+        headers,
+        responseType: "text",
+        retry: {
+          attempts: Math.max(1, Number(process.env.S2S_RETRY_ATTEMPTS ?? 1)),
+          baseMs: Number(process.env.S2S_RETRY_BASE_MS ?? 200),
+          // The lease endpoint only mints a token
+          retryNonIdempotent: true,
+        },
+      });
 
       if (!response.data) {
         throw new Error("Service-to-service token response was empty.");
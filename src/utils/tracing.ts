@@ -0,0 +1,414 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomBytes } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import type { Logger } from "winston";
+
+export type SpanKind = "internal" | "client";
+export type SpanStatusCode = "unset" | "ok" | "error";
+export type SpanAttributeValue = string | number | boolean;
+export type SpanAttributes = Record<string, SpanAttributeValue>;
+
+/** Identity carried by a W3C `traceparent` header */
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+  sampled: boolean;
+}
+
+/** A finished span as handed to exporters; times are epoch milliseconds */
+export interface SpanData {
+  name: string;
+  kind: SpanKind;
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  startTime: number;
+  endTime: number;
+  attributes: SpanAttributes;
+  status: { code: SpanStatusCode; message?: string };
+  events: Array<{ name: string; time: number; attributes: SpanAttributes }>;
+}
+
+export interface SpanExporter {
+  /** `resource` holds `service.name` and the tracer's resource attributes */
+  export(spans: SpanData[], resource: SpanAttributes): Promise<void>;
+  shutdown?(): Promise<void>;
+}
+
+export interface StartSpanOptions {
+  kind?: SpanKind;
+  attributes?: SpanAttributes;
+  /**
+   * Parent span or `traceparent` header value. Defaults to the active span (see `withSpan`),
+   * else the tracer's `traceparent`; `null` starts a new trace.
+   */
+  parent?: TraceSpan | string | null;
+}
+
+export interface TracerOptions {
+  /** `service.name` resource attribute (default: `OTEL_SERVICE_NAME`, else "playwright-tests") */
+  serviceName?: string;
+  resourceAttributes?: SpanAttributes;
+  exporters?: SpanExporter[];
+  /** Parent for spans started outside any active span, e.g. a CI job's span (default: `TRACEPARENT`) */
+  traceparent?: string;
+  /** Export once this many finished spans are pending (default: 100); `flush()` exports the rest */
+  batchSize?: number;
+  /** Export failures never fail a test; they are logged here as warnings when given */
+  logger?: Logger;
+  /** Handle export failures yourself instead (default: warn on `logger`, else ignore) */
+  onExportError?: (error: Error) => void;
+}
+
+const TRACEPARENT = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+/** Parse a W3C `traceparent` header; undefined when it is missing or malformed */
+export function parseTraceparent(value: string | undefined): SpanContext | undefined {
+  const match = TRACEPARENT.exec(value?.trim().toLowerCase() ?? "");
+  if (!match) return undefined;
+  const [, version, traceId, spanId, flags] = match as unknown as [string, string, string, string, string];
+  if (version === "ff" || /^0+$/.test(traceId) || /^0+$/.test(spanId)) return undefined;
+  return { traceId, spanId, sampled: (parseInt(flags, 16) & 1) === 1 };
+}
+
+/** A unit of work in a trace; create spans with `Tracer.startSpan()` and always `end()` them */
+export class TraceSpan {
+  public readonly traceId: string;
+  public readonly spanId: string;
+  public readonly parentSpanId: string | undefined;
+  public readonly sampled: boolean;
+  public readonly startTime = Date.now();
+  private readonly attributes: SpanAttributes = {};
+  private readonly events: SpanData["events"] = [];
+  private status: SpanData["status"] = { code: "unset" };
+  private endTime: number | undefined;
+
+  constructor(
+    public readonly name: string,
+    public readonly kind: SpanKind,
+    parent: SpanContext | undefined,
+    private readonly onEnd: (span: SpanData, sampled: boolean) => void
+  ) {
+    this.traceId = parent?.traceId ?? randomBytes(16).toString("hex");
+    this.spanId = randomBytes(8).toString("hex");
+    this.parentSpanId = parent?.spanId;
+    this.sampled = parent?.sampled ?? true;
+  }
+
+  /** W3C `traceparent` header value naming this span as the parent */
+  public get traceparent(): string {
+    return `00-${this.traceId}-${this.spanId}-${this.sampled ? "01" : "00"}`;
+  }
+
+  public get ended(): boolean {
+    return this.endTime !== undefined;
+  }
+
+  public setAttribute(key: string, value: SpanAttributeValue): this {
+    this.attributes[key] = value;
+    return this;
+  }
+
+  public setAttributes(attributes: SpanAttributes): this {
+    Object.assign(this.attributes, attributes);
+    return this;
+  }
+
+  public setStatus(code: SpanStatusCode, message?: string): this {
+    this.status = message === undefined ? { code } : { code, message };
+    return this;
+  }
+
+  /** Add an `exception` event and mark the span as failed */
+  public recordException(error: unknown): this {
+    const message = error instanceof Error ? error.message : String(error);
+    this.events.push({
+      name: "exception",
+      time: Date.now(),
+      attributes: {
+        "exception.type": error instanceof Error ? error.name : typeof error,
+        "exception.message": message,
+      },
+    });
+    return this.setStatus("error", message);
+  }
+
+  /** Finish the span and queue it for export; later calls are ignored */
+  public end(): void {
+    if (this.endTime !== undefined) return;
+    this.endTime = Date.now();
+    const data: SpanData = {
+      name: this.name,
+      kind: this.kind,
+      traceId: this.traceId,
+      spanId: this.spanId,
+      startTime: this.startTime,
+      endTime: this.endTime,
+      attributes: { ...this.attributes },
+      status: { ...this.status },
+      events: [...this.events],
+    };
+    if (this.parentSpanId !== undefined) data.parentSpanId = this.parentSpanId;
+    this.onEnd(data, this.sampled);
+  }
+}
+
+/**
+ * Minimal OpenTelemetry-compatible tracer: W3C trace context propagation and batched
+ * export to an OTLP/HTTP collector or a local JSON file. `withSpan()` makes a span the
+ * parent of everything started inside the callback, including ApiClient request spans.
+ * Spans from an unsampled `traceparent` are propagated but not exported.
+ *
+ * @example
+ * ```typescript
+ * const tracer = new Tracer({ serviceName: "civil-e2e", exporters: [new OtlpHttpExporter()] });
+ * const api = new ApiClient({ baseUrl, tracing: { tracer } });
+ *
+ * await tracer.trace("create claim", () => api.post("/cases", { data }));
+ * await tracer.shutdown();
+ * ```
+ */
+export class Tracer {
+  public readonly resource: SpanAttributes;
+  private readonly exporters: SpanExporter[];
+  private readonly defaultParent: SpanContext | undefined;
+  private readonly batchSize: number;
+  private readonly onExportError: (error: Error) => void;
+  private readonly storage = new AsyncLocalStorage<TraceSpan>();
+  private pending: SpanData[] = [];
+  private exporting: Promise<void> = Promise.resolve();
+
+  constructor(options?: TracerOptions) {
+    this.batchSize = options?.batchSize ?? 100;
+    if (!(this.batchSize >= 1)) {
+      throw new Error(`batchSize must be >= 1, got ${this.batchSize}`);
+    }
+    this.resource = {
+      ...options?.resourceAttributes,
+      "service.name": options?.serviceName ?? process.env.OTEL_SERVICE_NAME ?? "playwright-tests",
+    };
+    this.exporters = [...(options?.exporters ?? [])];
+    this.defaultParent = parseTraceparent(options?.traceparent ?? process.env.TRACEPARENT);
+    const logger = options?.logger;
+    this.onExportError =
+      options?.onExportError ??
+      ((error) => logger?.warn(`Span export failed: ${error.message}`));
+  }
+
+  public startSpan(name: string, options?: StartSpanOptions): TraceSpan {
+    const parent = this.resolveParent(options?.parent);
+    const span = new TraceSpan(name, options?.kind ?? "internal", parent, (data, sampled) => this.onEnd(data, sampled));
+    if (options?.attributes) span.setAttributes(options.attributes);
+    return span;
+  }
+
+  /** The span made active by the enclosing `withSpan()` / `trace()`, if any */
+  public activeSpan(): TraceSpan | undefined {
+    return this.storage.getStore();
+  }
+
+  /** Run `fn` with `span` as the active parent; the span is not ended */
+  public withSpan<T>(span: TraceSpan, fn: () => T): T {
+    return this.storage.run(span, fn);
+  }
+
+  /** Start a span, run `fn` inside it and end it, recording a thrown error */
+  public async trace<T>(
+    name: string,
+    fn: (span: TraceSpan) => Promise<T> | T,
+    options?: StartSpanOptions
+  ): Promise<T> {
+    const span = this.startSpan(name, options);
+    try {
+      return await this.withSpan(span, () => fn(span));
+    } catch (error) {
+      span.recordException(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /** Export every finished span that is still pending */
+  public flush(): Promise<void> {
+    const batch = this.pending;
+    this.pending = [];
+    this.exporting = this.exporting.then(() => this.exportBatch(batch));
+    return this.exporting;
+  }
+
+  /** Flush, then shut the exporters down */
+  public async shutdown(): Promise<void> {
+    await this.flush();
+    await Promise.all(this.exporters.map((exporter) => exporter.shutdown?.()));
+  }
+
+  private resolveParent(parent: StartSpanOptions["parent"]): SpanContext | undefined {
+    if (parent === null) return undefined;
+    if (parent instanceof TraceSpan) return parent;
+    if (typeof parent === "string") return parseTraceparent(parent);
+    return this.activeSpan() ?? this.defaultParent;
+  }
+
+  private onEnd(span: SpanData, sampled: boolean): void {
+    if (!sampled || !this.exporters.length) return;
+    this.pending.push(span);
+    if (this.pending.length >= this.batchSize) void this.flush();
+  }
+
+  private async exportBatch(batch: SpanData[]): Promise<void> {
+    if (!batch.length) return;
+    const results = await Promise.allSettled(this.exporters.map((exporter) => exporter.export(batch, this.resource)));
+    for (const result of results) {
+      if (result.status === "rejected") {
+        this.onExportError(result.reason instanceof Error ? result.reason : new Error(String(result.reason)));
+      }
+    }
+  }
+}
+
+export interface OtlpHttpExporterOptions {
+  /**
+   * Default: `OTEL_EXPORTER_OTLP_TRACES_ENDPOINT`, else `OTEL_EXPORTER_OTLP_ENDPOINT` + `/v1/traces`,
+   * else `http://localhost:4318/v1/traces`
+   */
+  url?: string;
+  /** Default: `OTEL_EXPORTER_OTLP_HEADERS`, e.g. `api-key=abc,x-tenant=civil` */
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+}
+
+/** Sends spans to an OpenTelemetry collector as OTLP/HTTP JSON */
+export class OtlpHttpExporter implements SpanExporter {
+  public readonly url: string;
+  private readonly headers: Record<string, string>;
+  private readonly timeoutMs: number;
+
+  constructor(options?: OtlpHttpExporterOptions) {
+    const endpoint = process.env.OTEL_EXPORTER_OTLP_ENDPOINT?.replace(/\/+$/, "");
+    this.url =
+      options?.url ??
+      process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT ??
+      `${endpoint ?? "http://localhost:4318"}/v1/traces`;
+    this.headers = options?.headers ?? parseHeaderList(process.env.OTEL_EXPORTER_OTLP_HEADERS);
+    this.timeoutMs = options?.timeoutMs ?? 10_000;
+  }
+
+  public async export(spans: SpanData[], resource: SpanAttributes): Promise<void> {
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: { ...this.headers, "content-type": "application/json" },
+      body: JSON.stringify(toOtlpJson(spans, resource)),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`OTLP export to ${this.url} failed with status ${response.status}`);
+    }
+  }
+}
+
+export interface JsonFileSpanExporterOptions {
+  /** Default: `test-results/traces/worker-<TEST_WORKER_INDEX>.jsonl` */
+  file?: string;
+  /**
+   * "spans" writes one span per line; "otlp" writes one OTLP JSON request per batch, as read
+   * by the collector's `otlpjsonfile` receiver (default: "spans")
+   */
+  format?: "spans" | "otlp";
+}
+
+/** Appends spans to a JSON-lines file, for offline inspection or later import */
+export class JsonFileSpanExporter implements SpanExporter {
+  public readonly file: string;
+  private readonly format: "spans" | "otlp";
+
+  constructor(options?: JsonFileSpanExporterOptions) {
+    this.file =
+      options?.file ?? path.join("test-results", "traces", `worker-${process.env.TEST_WORKER_INDEX ?? 0}.jsonl`);
+    this.format = options?.format ?? "spans";
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+  }
+
+  public async export(spans: SpanData[], resource: SpanAttributes): Promise<void> {
+    const lines =
+      this.format === "otlp"
+        ? [JSON.stringify(toOtlpJson(spans, resource))]
+        : spans.map((span) => JSON.stringify({ ...span, resource }));
+    await fs.promises.appendFile(this.file, `${lines.join("\n")}\n`);
+  }
+}
+
+const OTLP_SPAN_KIND: Record<SpanKind, number> = { internal: 1, client: 3 };
+const OTLP_STATUS_CODE: Record<SpanStatusCode, number> = { unset: 0, ok: 1, error: 2 };
+
+/** OTLP `ExportTraceServiceRequest` in its JSON encoding (hex ids, nanosecond string times) */
+function toOtlpJson(spans: SpanData[], resource: SpanAttributes): object {
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: toOtlpAttributes(resource) },
+        scopeSpans: [
+          {
+            scope: { name: "@hmcts/playwright-common" },
+            spans: spans.map((span) => ({
+              traceId: span.traceId,
+              spanId: span.spanId,
+              ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+              name: span.name,
+              kind: OTLP_SPAN_KIND[span.kind],
+              startTimeUnixNano: toUnixNano(span.startTime),
+              endTimeUnixNano: toUnixNano(span.endTime),
+              attributes: toOtlpAttributes(span.attributes),
+              events: span.events.map((event) => ({
+                name: event.name,
+                timeUnixNano: toUnixNano(event.time),
+                attributes: toOtlpAttributes(event.attributes),
+              })),
+              status: {
+                code: OTLP_STATUS_CODE[span.status.code],
+                ...(span.status.message ? { message: span.status.message } : {}),
+              },
+            })),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+function toOtlpAttributes(attributes: SpanAttributes): Array<{ key: string; value: object }> {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value:
+      typeof value === "string"
+        ? { stringValue: value }
+        : typeof value === "boolean"
+          ? { boolValue: value }
+          : Number.isInteger(value)
+            ? { intValue: String(value) }
+            : { doubleValue: value },
+  }));
+}
+
+function toUnixNano(epochMs: number): string {
+  return `${BigInt(Math.round(epochMs)) * 1_000_000n}`;
+}
+
+function parseHeaderList(value: string | undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const pair of value?.split(",") ?? []) {
+    const index = pair.indexOf("=");
+    if (index > 0) headers[safeDecode(pair.slice(0, index).trim())] = safeDecode(pair.slice(index + 1).trim());
+  }
+  return headers;
+}
+
+/** Values are meant to be URL-encoded, but a stray `%` should not stop the exporter being built */
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
@@ -0,0 +1,125 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { PassThrough } from "stream";
+import type { TestInfo, WorkerInfo } from "@playwright/test";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Logger } from "winston";
+import { transports as winstonTransports } from "winston";
+import { createLogger } from "../../src/logging/logger.js";
+import {
+  TestLogTransport,
+  createTestLogFixtures,
+} from "../../src/logging/test-log-transport.js";
+
+type FixtureFn<T> = (args: object, use: (value: T) => Promise<void>, info: unknown) => Promise<void>;
+
+function loggerFor(transport: TestLogTransport): Logger {
+  return createLogger({ transports: [transport], format: "json" });
+}
+
+function readLines(file: string): Array<Record<string, unknown>> {
+  return fs
+    .readFileSync(file, "utf8")
+    .trim()
+    .split("\n")
+    .map((line) => JSON.parse(line) as Record<string, unknown>);
+}
+
+describe("TestLogTransport", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "test-logs-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("buffers lines per test and writes redacted JSON lines per worker", () => {
+    const transport = new TestLogTransport({ dir, workerIndex: 3, maxLinesPerTest: 2 });
+    const logger = loggerFor(transport);
+
+    logger.info("global setup");
+    transport.startTest("test-a");
+    logger.info("creating case", { token: "abc" });
+    logger.info("from another test", { testId: "test-b" });
+    logger.info("case created");
+    logger.info("event submitted");
+
+    const lines = transport.endTest("test-a").map((line) => JSON.parse(line) as Record<string, unknown>);
+    expect(lines.map((line) => line.message)).toEqual([
+      "1 earlier log line(s) dropped (maxLinesPerTest 2)",
+      "case created",
+      "event submitted",
+    ]);
+    expect(transport.endTest("test-a")).toEqual([]);
+
+    const written = readLines(path.join(dir, "worker-3.jsonl"));
+    expect(written.map((line) => [line.message, line.testId])).toEqual([
+      ["global setup", undefined],
+      ["creating case", "test-a"],
+      ["from another test", "test-b"],
+      ["case created", "test-a"],
+      ["event submitted", "test-a"],
+    ]);
+    expect(written[1]?.token).toBe("[REDACTED]");
+  });
+
+  it("rotates worker files once they exceed maxFileBytes", () => {
+    const transport = new TestLogTransport({ dir, workerIndex: 0, maxFileBytes: 200, maxFiles: 3 });
+    const logger = loggerFor(transport);
+
+    for (let i = 0; i < 12; i++) logger.info(`line ${i} ${"x".repeat(60)}`);
+
+    expect(fs.readdirSync(dir).sort()).toEqual(["worker-0.1.jsonl", "worker-0.2.jsonl", "worker-0.jsonl"]);
+    expect(fs.statSync(path.join(dir, "worker-0.jsonl")).size).toBeLessThanOrEqual(200);
+    expect(readLines(path.join(dir, "worker-0.jsonl")).at(-1)?.message).toContain("line 11");
+    expect(() => new TestLogTransport({ dir, maxFiles: 0 })).toThrow("maxFiles must be >= 1, got 0");
+  });
+
+  it("provides fixtures that attach a test's logs only when it fails", async () => {
+    const fixtures = createTestLogFixtures({
+      dir,
+      logger: { transports: [new winstonTransports.Stream({ stream: new PassThrough() })] },
+    }) as unknown as { testLogTransport: [FixtureFn<TestLogTransport>, object]; logger: FixtureFn<Logger> };
+
+    let transport: TestLogTransport | undefined;
+    await fixtures.testLogTransport[0]({}, async (value) => {
+      transport = value;
+    }, { workerIndex: 1 } as WorkerInfo);
+
+    const runTest = async (testId: string, status: TestInfo["status"]) => {
+      const attach = vi.fn();
+      const testInfo = {
+        testId,
+        titlePath: ["cases.spec.ts", "creates a case"],
+        workerIndex: 1,
+        retry: 0,
+        status,
+        expectedStatus: "passed",
+        attach,
+      } as unknown as TestInfo;
+      await fixtures.logger({ testLogTransport: transport }, async (logger) => {
+        logger.info(`running ${testId}`);
+      }, testInfo);
+      return attach;
+    };
+
+    const failedAttach = await runTest("t-1", "failed");
+    const passedAttach = await runTest("t-2", "passed");
+
+    expect(failedAttach).toHaveBeenCalledTimes(1);
+    const [name, attachment] = failedAttach.mock.calls[0] as [string, { body: string; contentType: string }];
+    expect(name).toBe("test-logs.jsonl");
+    expect(JSON.parse(attachment.body)).toMatchObject({
+      message: "running t-1",
+      testId: "t-1",
+      testTitle: "cases.spec.ts > creates a case",
+      workerIndex: 1,
+    });
+    expect(passedAttach).not.toHaveBeenCalled();
+    expect(readLines(path.join(dir, "worker-1.jsonl")).map((line) => line.testId)).toEqual(["t-1", "t-2"]);
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
 import { buildRedactionState, sanitiseHeaders, sanitiseValue, REDACTED_VALUE } from "../src/logging/redaction";
+import { createHash } from "node:crypto";
 
 describe("redaction defaults", () => {
   const state = buildRedactionState();
@@ -37,4 +38,20 @@ describe("redaction defaults", () => {
     expect(sanitised.nested.api_key).toBe(REDACTED_VALUE);
     expect(sanitised.nested.normal).toBe("hello");
   });
+
+  it("summarises buffers instead of dumping bytes", () => {
+    const bytes = Buffer.from("%PDF-1.7 binary");
+    const sanitised = sanitiseValue({ document: bytes, password: "x" }, state) as unknown as {
+      document: unknown;
+    };
+    expect(sanitised.document).toEqual({
+      binary: true,
+      size: bytes.length,
+      sha256: createHash("sha256").update(bytes).digest("hex"),
+    });
+    expect(sanitiseValue(bytes, buildRedactionState({ enabled: false }))).toMatchObject({
+      binary: true,
+      size: bytes.length,
+    });
+  });
 });
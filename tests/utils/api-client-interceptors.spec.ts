@@ -0,0 +1,152 @@
+import { describe, expect, it, vi } from "vitest";
+import type { APIRequestContext, APIResponse } from "@playwright/test";
+import { ApiClient, ApiClientError } from "../../src/utils/api-client.js";
+import type { ApiLogEntry } from "../../src/utils/api-client.js";
+
+function fakeResponse(status: number, body = "{}"): APIResponse {
+  return {
+    status: () => status,
+    ok: () => status >= 200 && status < 300,
+    headers: () => ({ "content-type": "application/json" }),
+    text: async () => body,
+  } as unknown as APIResponse;
+}
+
+function createContext(response: APIResponse | Error) {
+  const fetch = vi.fn(async () => {
+    if (response instanceof Error) throw response;
+    return response;
+  });
+  return {
+    context: { fetch, dispose: vi.fn() } as unknown as APIRequestContext,
+    fetch,
+  };
+}
+
+describe("ApiClient interceptors", () => {
+  it("lets beforeRequest mutate headers and rewrite the URL", async () => {
+    const { context, fetch } = createContext(fakeResponse(200));
+    const client = new ApiClient({
+      baseUrl: "https://example.com",
+      requestFactory: async () => context,
+      interceptors: [
+        {
+          beforeRequest: (request) => {
+            request.headers["x-tenant"] = "divorce";
+            request.url = request.url.replace("example.com", "rewritten.test");
+          },
+        },
+      ],
+    });
+
+    const res = await client.get("/cases");
+
+    expect(fetch).toHaveBeenCalledWith(
+      "https://rewritten.test/cases",
+      expect.objectContaining({
+        headers: expect.objectContaining({ "x-tenant": "divorce" }),
+      })
+    );
+    expect(res.logEntry.url).toBe("https://rewritten.test/cases");
+  });
+
+  it("runs async interceptors in registration order", async () => {
+    const { context } = createContext(fakeResponse(200));
+    const order: string[] = [];
+    const client = new ApiClient({
+      baseUrl: "https://example.com",
+      requestFactory: async () => context,
+      interceptors: [
+        {
+          beforeRequest: async () => {
+            await new Promise((r) => setTimeout(r, 5));
+            order.push("first");
+          },
+        },
+      ],
+    });
+    client.use({ beforeRequest: () => void order.push("second") });
+
+    await client.get("/ordered");
+    expect(order).toEqual(["first", "second"]);
+  });
+
+  it("short-circuits the network with a synthetic response", async () => {
+    const { context, fetch } = createContext(fakeResponse(500));
+    const entries: ApiLogEntry[] = [];
+    const client = new ApiClient({
+      baseUrl: "https://example.com",
+      requestFactory: async () => context,
+      onResponse: (entry) => entries.push(entry),
+      interceptors: [
+        {
+          beforeRequest: () => ({
+            status: 200,
+            headers: {},
+            body: JSON.stringify({ stubbed: true }),
+          }),
+        },
+      ],
+    });
+
+    const res = await client.get<{ stubbed: boolean }>("/stub");
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect(res.data.stubbed).toBe(true);
+    expect(entries).toHaveLength(1);
+  });
+
+  it("lets afterResponse transform the body", async () => {
+    const { context } = createContext(fakeResponse(200, JSON.stringify({ value: 1 })));
+    const client = new ApiClient({
+      baseUrl: "https://example.com",
+      requestFactory: async () => context,
+      interceptors: [
+        {
+          afterResponse: (response) => ({
+            ...response,
+            body: JSON.stringify({ value: 2 }),
+          }),
+        },
+      ],
+    });
+
+    const res = await client.get<{ value: number }>("/transform");
+    expect(res.data.value).toBe(2);
+  });
+
+  it("lets onError recover from a failed request", async () => {
+    const { context } = createContext(fakeResponse(503));
+    const onError = vi.fn();
+    const client = new ApiClient({
+      baseUrl: "https://example.com",
+      requestFactory: async () => context,
+      onError,
+      interceptors: [
+        {
+          onError: (error) =>
+            error.status === 503
+              ? { status: 200, headers: {}, body: JSON.stringify({ fallback: true }) }
+              : undefined,
+        },
+      ],
+    });
+
+    const res = await client.get<{ fallback: boolean }>("/flaky");
+    expect(res.data.fallback).toBe(true);
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it("propagates the error when no interceptor recovers", async () => {
+    const { context } = createContext(new Error("connection refused"));
+    const seen = vi.fn();
+    const client = new ApiClient({
+      baseUrl: "https://example.com",
+      requestFactory: async () => context,
+      interceptors: [{ onError: (error) => void seen(error.status) }],
+    });
+
+    await expect(client.get("/down")).rejects.toBeInstanceOf(ApiClientError);
+    expect(seen).toHaveBeenCalledWith(0);
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, expect, it, vi } from "vitest";
+import type { APIRequestContext, APIResponse } from "@playwright/test";
+import { ApiClient, ApiClientError } from "../../src/utils/api-client.js";
+import type { ApiLogEntry } from "../../src/utils/api-client.js";
+
+function fakeResponse(
+  status: number,
+  body = "{}",
+  headers: Record<string, string> = {}
+): APIResponse {
+  return {
+    status: () => status,
+    ok: () => status >= 200 && status < 300,
+    headers: () => headers,
+    text: async () => body,
+  } as unknown as APIResponse;
+}
+
+function sequenceContext(responses: Array<APIResponse | Error>) {
+  const fetch = vi.fn(async () => {
+    const next = responses.shift();
+    if (!next) throw new Error("no more responses");
+    if (next instanceof Error) throw next;
+    return next;
+  });
+  return {
+    context: { fetch, dispose: vi.fn() } as unknown as APIRequestContext,
+    fetch,
+  };
+}
+
+describe("ApiClient retry policy", () => {
+  it("does not retry by default", async () => {
+    const { context, fetch } = sequenceContext([fakeResponse(503), fakeResponse(200)]);
+    const client = new ApiClient({
+      baseUrl: "https://example.com",
+      requestFactory: async () => context,
+    });
+
+    await expect(client.get("/flaky")).rejects.toBeInstanceOf(ApiClientError);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries retryable statuses for GET and records each attempt", async () => {
+    const { context, fetch } = sequenceContext([
+      fakeResponse(503),
+      fakeResponse(502),
+      fakeResponse(200, JSON.stringify({ ok: true })),
+    ]);
+    const entries: ApiLogEntry[] = [];
+    const client = new ApiClient({
+      baseUrl: "https://example.com",
+      requestFactory: async () => context,
+      retry: { attempts: 3, baseMs: 1, maxMs: 5 },
+      onResponse: (entry) => entries.push(entry),
+    });
+
+    const res = await client.get<{ ok: boolean }>("/flaky");
+
+    expect(res.data.ok).toBe(true);
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(entries.map((e) => e.attempt)).toEqual([1, 2, 3]);
+    expect(res.logEntry.attempt).toBe(3);
+  });
+
+  it("populates attempt on the final ApiClientError and calls onError once", async () => {
+    const { context } = sequenceContext([fakeResponse(500), fakeResponse(500)]);
+    const onError = vi.fn();
+    const client = new ApiClient({
+      baseUrl: "https://example.com",
+      requestFactory: async () => context,
+      retry: { attempts: 2, baseMs: 1, maxMs: 5 },
+      onError,
+    });
+
+    const error = await client.get("/down").catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ApiClientError);
+    expect((error as ApiClientError).attempt).toBe(2);
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries network failures (status 0)", async () => {
+    const { context, fetch } = sequenceContext([
+      new Error("socket hang up"),
+      fakeResponse(200),
+    ]);
+    const client = new ApiClient({
+      baseUrl: "https://example.com",
+      requestFactory: async () => context,
+      retry: { attempts: 2, baseMs: 1, maxMs: 5 },
+    });
+
+    const res = await client.get("/network");
+    expect(res.status).toBe(200);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not retry POST unless opted in", async () => {
+    const { context, fetch } = sequenceContext([fakeResponse(503), fakeResponse(201)]);
+    const client = new ApiClient({
+      baseUrl: "https://example.com",
+      requestFactory: async () => context,
+      retry: { attempts: 3, baseMs: 1, maxMs: 5 },
+    });
+
+    await expect(client.post("/cases", { data: {} })).rejects.toBeInstanceOf(ApiClientError);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries POST when the request opts in", async () => {
+    const { context, fetch } = sequenceContext([fakeResponse(503), fakeResponse(201)]);
+    const client = new ApiClient({
+      baseUrl: "https://example.com",
+      requestFactory: async () => context,
+      retry: { attempts: 3, baseMs: 1, maxMs: 5 },
+    });
+
+    const res = await client.post("/token", {
+      data: {},
+      retry: { retryNonIdempotent: true },
+    });
+    expect(res.status).toBe(201);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not retry non-retryable statuses", async () => {
+    const { context, fetch } = sequenceContext([fakeResponse(404), fakeResponse(200)]);
+    const client = new ApiClient({
+      baseUrl: "https://example.com",
+      requestFactory: async () => context,
+      retry: { attempts: 3, baseMs: 1, maxMs: 5 },
+    });
+
+    await expect(client.get("/missing")).rejects.toMatchObject({ status: 404 });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("allows retries to be disabled per request", async () => {
+    const { context, fetch } = sequenceContext([fakeResponse(503), fakeResponse(200)]);
+    const client = new ApiClient({
+      baseUrl: "https://example.com",
+      requestFactory: async () => context,
+      retry: { attempts: 3, baseMs: 1, maxMs: 5 },
+    });
+
+    await expect(client.get("/flaky", { retry: false })).rejects.toBeInstanceOf(ApiClientError);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries non-ok responses when throwOnError is false", async () => {
+    const { context, fetch } = sequenceContext([fakeResponse(429), fakeResponse(200)]);
+    const client = new ApiClient({
+      baseUrl: "https://example.com",
+      requestFactory: async () => context,
+      retry: { attempts: 2, baseMs: 1, maxMs: 5 },
+    });
+
+    const res = await client.get("/limited", { throwOnError: false });
+    expect(res.status).toBe(200);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("validates the retry policy", async () => {
+    const { context } = sequenceContext([fakeResponse(200)]);
+    const client = new ApiClient({
+      baseUrl: "https://example.com",
+      requestFactory: async () => context,
+      retry: { attempts: 0 },
+    });
+
+    await expect(client.get("/health")).rejects.toThrow("retry attempts must be >= 1, got 0");
+  });
+});
@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { request, type APIRequestContext, type APIResponse, type BrowserContext } from "@playwright/test";
+import { ApiClient } from "../../src/utils/api-client.js";
+import type { ApiLogEntry } from "../../src/utils/api-client.js";
+
+const okResponse = {
+  status: () => 200,
+  ok: () => true,
+  headers: () => ({ "content-type": "application/json", "set-cookie": "__auth__=new; HttpOnly" }),
+  text: async () => "{}",
+} as unknown as APIResponse;
+
+function sessionContext(cookies: Array<{ name: string; value: string; domain: string; path?: string }>) {
+  const fetch = vi.fn(async () => okResponse);
+  const dispose = vi.fn();
+  const storageState = vi.fn(async () => ({ cookies, origins: [] }));
+  return { context: { fetch, dispose, storageState } as unknown as APIRequestContext, fetch, dispose };
+}
+
+function sentHeaders(fetch: ReturnType<typeof vi.fn>, call = 0): Record<string, string> {
+  return ((fetch.mock.calls[call] as unknown[])[1] as { headers: Record<string, string> }).headers;
+}
+
+describe("ApiClient sessions", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("shares a browser context's cookies and mirrors XSRF-TOKEN for the request host", async () => {
+    const { context, fetch, dispose } = sessionContext([
+      { name: "XSRF-TOKEN", value: "other", domain: "idam.test" },
+      { name: "XSRF-TOKEN", value: "abc%3D%3D", domain: ".manage-case.test" },
+      { name: "__auth__", value: "jwt", domain: "manage-case.test" },
+    ]);
+    const entries: ApiLogEntry[] = [];
+    const client = ApiClient.fromBrowserContext({ request: context } as unknown as BrowserContext, {
+      baseUrl: "https://manage-case.test",
+      onResponse: (entry) => entries.push(entry),
+    });
+
+    await client.post("/data/internal/cases/1/events", { data: {} });
+    await client.dispose();
+
+    expect(sentHeaders(fetch)["X-XSRF-TOKEN"]).toBe("abc==");
+    expect(entries[0]?.request.headers?.["X-XSRF-TOKEN"]).toBe("[REDACTED]");
+    expect(entries[0]?.response.headers?.["set-cookie"]).toBe("[REDACTED]");
+    expect(dispose).not.toHaveBeenCalled();
+  });
+
+  it("sends no XSRF header when no cookie matches the request host and path", async () => {
+    const { context, fetch } = sessionContext([
+      { name: "XSRF-TOKEN", value: "idam-token", domain: "idam.test" },
+      { name: "XSRF-TOKEN", value: "api-token", domain: "manage-case.test", path: "/api" },
+    ]);
+    const client = ApiClient.fromBrowserContext({ request: context } as unknown as BrowserContext, {
+      baseUrl: "https://manage-case.test",
+    });
+
+    await client.get("/data/internal/cases/1");
+    await client.get("/api/user/details");
+    await client.get("/apiary");
+
+    expect(Object.keys(sentHeaders(fetch, 0))).not.toContain("X-XSRF-TOKEN");
+    expect(sentHeaders(fetch, 1)["X-XSRF-TOKEN"]).toBe("api-token");
+    expect(Object.keys(sentHeaders(fetch, 2))).not.toContain("X-XSRF-TOKEN");
+  });
+
+  it("creates its own request context from a storage-state file", async () => {
+    const { context, fetch, dispose } = sessionContext([
+      { name: "XSRF-TOKEN", value: "from-file", domain: "manage-case.test" },
+    ]);
+    const newContext = vi.spyOn(request, "newContext").mockResolvedValue(context);
+    const client = ApiClient.fromStorageState(".sessions/caseworker.json", { baseUrl: "https://manage-case.test" });
+
+    await client.get("/data/internal/cases/1", { headers: { "X-XSRF-TOKEN": "explicit" } });
+    await client.dispose();
+
+    expect(newContext).toHaveBeenCalledWith({ storageState: ".sessions/caseworker.json" });
+    expect(sentHeaders(fetch)["X-XSRF-TOKEN"]).toBe("explicit");
+    expect(dispose).toHaveBeenCalledTimes(1);
+  });
+
+  it("can rename or disable the XSRF mirror and rejects ambiguous sessions", async () => {
+    const { context, fetch } = sessionContext([{ name: "csrf", value: "c1", domain: "manage-case.test" }]);
+    const renamed = ApiClient.fromBrowserContext({ request: context } as unknown as BrowserContext, {
+      baseUrl: "https://manage-case.test",
+      session: { xsrf: { cookieName: "csrf", headerName: "X-CSRF-Token" } },
+    });
+    await renamed.get("/api/user/details");
+    expect(sentHeaders(fetch)["X-CSRF-Token"]).toBe("c1");
+
+    const disabled = ApiClient.fromBrowserContext({ request: context } as unknown as BrowserContext, {
+      baseUrl: "https://manage-case.test",
+      session: { xsrf: false },
+    });
+    await disabled.get("/api/user/details");
+    expect(Object.keys(sentHeaders(fetch, 1))).not.toContain("X-XSRF-TOKEN");
+
+    expect(() => new ApiClient({ session: {} })).toThrow(
+      "session needs exactly one of storageState or browserContext"
+    );
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import type { ExpectMatcherState } from "@playwright/test";
+import { apiMatchers, describeLogEntry, expectApi } from "../../src/utils/api-matchers.js";
+import type { ApiLogEntry, ApiResponsePayload } from "../../src/utils/api-client.js";
+
+const state = { isNot: false } as ExpectMatcherState;
+
+function payload(overrides: Partial<ApiResponsePayload> = {}): ApiResponsePayload {
+  const logEntry: ApiLogEntry = {
+    id: "1",
+    name: "ccd",
+    method: "GET",
+    url: "https://example.test/cases/1",
+    status: 200,
+    ok: true,
+    timestamp: "2026-01-01T00:00:00.000Z",
+    durationMs: 120,
+    correlationId: "corr-42",
+    attempt: 1,
+    request: { headers: { Authorization: "[REDACTED]" } },
+    response: {
+      headers: { "content-type": "application/json", "set-cookie": "[REDACTED]" },
+      body: { id: 1, state: "Submitted", token: "[REDACTED]", parties: [{ name: "A" }] },
+    },
+  };
+  return {
+    ok: true,
+    status: 200,
+    data: { id: 1, state: "Submitted", token: "raw-token", parties: [{ name: "A" }] },
+    headers: { "Content-Type": "application/json", "Set-Cookie": "Idam.Session=raw-session" },
+    logEntry,
+    ...overrides,
+  };
+}
+
+describe("apiMatchers", () => {
+  it("passes for matching responses via the extended expect", () => {
+    const res = payload();
+    expectApi(res).toHaveStatus(200);
+    expectApi(res).toHaveStatus([200, 201]);
+    expectApi(res).toHaveHeader("content-type", /json/);
+    expectApi(res).toMatchJsonSubset({ state: "Submitted", parties: [{ name: "A" }] });
+    expectApi(res).toRespondWithin(500);
+    expectApi(res).toMatchSchema({ type: "object", required: ["id"] });
+    expectApi(res).not.toHaveStatus(404);
+  });
+
+  it("includes the redacted request context in failure messages", () => {
+    const outcome = apiMatchers.toHaveStatus.call(state, payload(), 201);
+    const message = outcome.message();
+
+    expect(outcome.pass).toBe(false);
+    expect(message).toContain("Expected: 201");
+    expect(message).toContain("Received: 200");
+    expect(message).toContain("Request: GET https://example.test/cases/1");
+    expect(message).toContain("Correlation id: corr-42");
+    expect(message).toContain('"token": "[REDACTED]"');
+    expect(message).not.toContain("raw-token");
+  });
+
+  it("reports the first subset mismatch, missing headers and slow responses", () => {
+    const res = payload();
+    expect(
+      apiMatchers.toMatchJsonSubset.call(state, res, { parties: [{ name: "B" }] }).message()
+    ).toContain('$.parties[0].name is "A", expected "B"');
+    expect(apiMatchers.toHaveHeader.call(state, res, "etag").message()).toContain(
+      'Received: no "etag" header'
+    );
+    expect(apiMatchers.toRespondWithin.call(state, res, 100).message()).toContain(
+      "Received: 120ms"
+    );
+    expect(
+      apiMatchers.toMatchSchema.call(state, res, {
+        type: "object",
+        properties: { state: { type: "integer" } },
+      }).message()
+    ).toContain("$.state expected integer, got string");
+  });
+
+  it("shows redacted values from the log entry, not the raw response", () => {
+    const res = payload();
+    const subset = apiMatchers.toMatchJsonSubset.call(state, res, { token: "other" }).message();
+    const header = apiMatchers.toHaveHeader.call(state, res, "set-cookie", /Other/).message();
+
+    expect(subset).toContain('$.token is "[REDACTED]", expected "other"');
+    expect(header).toContain("Received: set-cookie: [REDACTED]");
+    expect(`${subset}\n${header}`).not.toMatch(/raw-token|raw-session/);
+  });
+
+  it("throws for values that are not ApiResponsePayloads, even when negated", () => {
+    expect(() => apiMatchers.toHaveStatus.call(state, 200 as unknown as ApiResponsePayload, 200)).toThrow(
+      "toHaveStatus: expected an ApiResponsePayload, received number"
+    );
+    expect(() => expectApi(undefined as unknown as ApiResponsePayload).not.toHaveStatus(200)).toThrow(
+      "expected an ApiResponsePayload"
+    );
+  });
+
+  it("truncates long bodies in the log entry summary", () => {
+    const summary = describeLogEntry({
+      ...payload().logEntry,
+      response: { body: "x".repeat(5000) },
+    });
+    expect(summary.length).toBeLessThan(2300);
+    expect(summary.endsWith("…")).toBe(true);
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, expect, it, vi } from "vitest";
+import type { APIRequestContext, APIResponse } from "@playwright/test";
+import {
+  BearerAuthProvider,
+  CombinedAuthProvider,
+  ServiceAuthProvider,
+  TokenCache,
+  decodeJwtExpiry,
+} from "../../src/utils/auth-provider.js";
+import { ApiClient, ApiClientError } from "../../src/utils/api-client.js";
+
+function buildJwt(payload: Record<string, unknown>): string {
+  const encode = (value: unknown) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+  return `${encode({ alg: "none" })}.${encode(payload)}.signature`;
+}
+
+function fakeResponse(status: number): APIResponse {
+  return {
+    status: () => status,
+    ok: () => status >= 200 && status < 300,
+    headers: () => ({}),
+    text: async () => "{}",
+  } as unknown as APIResponse;
+}
+
+describe("decodeJwtExpiry", () => {
+  it("returns exp in epoch milliseconds", () => {
+    expect(decodeJwtExpiry(buildJwt({ exp: 1_700_000_000 }))).toBe(1_700_000_000_000);
+  });
+
+  it("returns undefined for opaque tokens", () => {
+    expect(decodeJwtExpiry("opaque-token")).toBeUndefined();
+    expect(decodeJwtExpiry("a.not-json.c")).toBeUndefined();
+  });
+});
+
+describe("TokenCache", () => {
+  it("reuses a token until shortly before its JWT expiry", async () => {
+    const now = Date.now();
+    const token = buildJwt({ exp: Math.floor(now / 1000) + 120 });
+    const fetchToken = vi.fn(async () => token);
+    const cache = new TokenCache(fetchToken, { refreshSkewMs: 60_000 });
+
+    await cache.get(now);
+    await cache.get(now + 30_000);
+    expect(fetchToken).toHaveBeenCalledTimes(1);
+
+    await cache.get(now + 61_000);
+    expect(fetchToken).toHaveBeenCalledTimes(2);
+  });
+
+  it("shares a single in-flight fetch between concurrent callers", async () => {
+    const fetchToken = vi.fn(async () => "opaque");
+    const cache = new TokenCache(fetchToken);
+
+    const tokens = await Promise.all([cache.get(), cache.get(), cache.get()]);
+    expect(tokens).toEqual(["opaque", "opaque", "opaque"]);
+    expect(fetchToken).toHaveBeenCalledTimes(1);
+  });
+
+  it("fetches again after invalidate()", async () => {
+    const fetchToken = vi.fn(async () => "opaque");
+    const cache = new TokenCache(fetchToken);
+
+    await cache.get();
+    cache.invalidate();
+    await cache.get();
+    expect(fetchToken).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("auth providers", () => {
+  it("combines IDAM bearer and S2S headers", async () => {
+    const provider = new CombinedAuthProvider(
+      new BearerAuthProvider({ fetchToken: async () => "user-token" }),
+      new ServiceAuthProvider({ fetchToken: async () => "s2s-token" })
+    );
+
+    await expect(provider.getHeaders()).resolves.toEqual({
+      Authorization: "Bearer user-token",
+      ServiceAuthorization: "Bearer s2s-token",
+    });
+  });
+});
+
+describe("ApiClient auth", () => {
+  it("applies provider headers without overriding explicit ones", async () => {
+    const fetch = vi.fn(async () => fakeResponse(200));
+    const client = new ApiClient({
+      baseUrl: "https://example.com",
+      requestFactory: async () => ({ fetch, dispose: vi.fn() }) as unknown as APIRequestContext,
+      auth: new CombinedAuthProvider(
+        new BearerAuthProvider({ fetchToken: async () => "user-token" }),
+        new ServiceAuthProvider({ fetchToken: async () => "s2s-token" })
+      ),
+    });
+
+    await client.get("/cases", { headers: { authorization: "Bearer explicit" } });
+
+    expect(fetch).toHaveBeenCalledWith(
+      "https://example.com/cases",
+      expect.objectContaining({
+        headers: {
+          authorization: "Bearer explicit",
+          ServiceAuthorization: "Bearer s2s-token",
+        },
+      })
+    );
+  });
+
+  it("refreshes the token and replays once on 401", async () => {
+    const responses = [fakeResponse(401), fakeResponse(200)];
+    const fetch = vi.fn(async () => responses.shift()!);
+    const fetchToken = vi
+      .fn<() => Promise<string>>()
+      .mockResolvedValueOnce("stale")
+      .mockResolvedValueOnce("fresh");
+    const client = new ApiClient({
+      baseUrl: "https://example.com",
+      requestFactory: async () => ({ fetch, dispose: vi.fn() }) as unknown as APIRequestContext,
+      auth: new BearerAuthProvider({ fetchToken }),
+    });
+
+    const res = await client.get("/cases");
+
+    expect(res.status).toBe(200);
+    expect(fetchToken).toHaveBeenCalledTimes(2);
+    expect(fetch).toHaveBeenLastCalledWith(
+      "https://example.com/cases",
+      expect.objectContaining({
+        headers: expect.objectContaining({ Authorization: "Bearer fresh" }),
+      })
+    );
+  });
+
+  it("surfaces the 401 when the replay is also rejected", async () => {
+    const fetch = vi.fn(async () => fakeResponse(401));
+    const client = new ApiClient({
+      baseUrl: "https://example.com",
+      requestFactory: async () => ({ fetch, dispose: vi.fn() }) as unknown as APIRequestContext,
+      auth: new BearerAuthProvider({ fetchToken: async () => "token" }),
+    });
+
+    await expect(client.get("/cases")).rejects.toBeInstanceOf(ApiClientError);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("redacts provider credentials when the request fails before a response", async () => {
+    const fetch = vi.fn(async () => {
+      throw new Error("connect ECONNREFUSED");
+    });
+    const client = new ApiClient({
+      baseUrl: "https://example.com",
+      requestFactory: async () => ({ fetch, dispose: vi.fn() }) as unknown as APIRequestContext,
+      auth: new CombinedAuthProvider(
+        new BearerAuthProvider({ fetchToken: async () => "user-token" }),
+        new ServiceAuthProvider({ fetchToken: async () => "s2s-token" })
+      ),
+    });
+
+    const error = await client.get("/cases?token=abc", { retry: false }).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(ApiClientError);
+    const { logEntry } = error as ApiClientError;
+    expect(logEntry?.status).toBe(0);
+    expect(logEntry?.request.headers).toMatchObject({
+      Authorization: "[REDACTED]",
+      ServiceAuthorization: "[REDACTED]",
+    });
+    expect(JSON.stringify(logEntry)).not.toMatch(/user-token|s2s-token|abc/);
+  });
+});
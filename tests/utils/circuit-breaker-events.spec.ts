@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from "vitest";
+import type { APIRequestContext, APIResponse } from "@playwright/test";
+import { ApiClient } from "../../src/utils/api-client.js";
+import type { ApiClientOptions } from "../../src/utils/api-client.js";
+import { CircuitBreaker } from "../../src/utils/circuit-breaker.js";
+import type { CircuitBreakerEvent, CircuitBreakerRegistryEvent } from "../../src/utils/circuit-breaker.js";
+
+function jsonResponse(status: number): APIResponse {
+  return {
+    status: () => status,
+    ok: () => status >= 200 && status < 300,
+    headers: () => ({ "content-type": "application/json" }),
+    text: async () => "{}",
+  } as unknown as APIResponse;
+}
+
+function clientReturning(status: number, circuitBreaker: ApiClientOptions["circuitBreaker"]) {
+  const fetch = vi.fn(async () => jsonResponse(status));
+  return new ApiClient({
+    baseUrl: "https://example.test",
+    requestFactory: async () => ({ fetch, dispose: vi.fn() }) as unknown as APIRequestContext,
+    ...(circuitBreaker ? { circuitBreaker } : {}),
+  });
+}
+
+describe("CircuitBreaker events and rate modes", () => {
+  it("emits open, rejected, half-open and close events", () => {
+    const cb = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 100, halfOpenMaxAttempts: 1 });
+    const events: CircuitBreakerEvent[] = [];
+    for (const type of ["open", "half-open", "close", "rejected"] as const) {
+      cb.on(type, (event) => events.push(event));
+    }
+
+    cb.onFailure(1_000);
+    cb.canProceed(1_050);
+    cb.canProceed(1_100);
+    cb.onSuccess(undefined, 1_110);
+
+    expect(events.map((event) => [event.type, event.from, event.to, event.reason])).toEqual([
+      ["open", "closed", "open", "failure-threshold"],
+      ["rejected", "open", "open", "circuit-open"],
+      ["half-open", "open", "half-open", "cooldown-elapsed"],
+      ["close", "half-open", "closed", "half-open-success"],
+    ]);
+    expect(events[0]?.metrics.openedAt).toBe(1_000);
+  });
+
+  it("opens on the failure rate of the sliding window once minimumCalls is reached", () => {
+    const cb = new CircuitBreaker({ failureRateThreshold: 50, slidingWindowSize: 4, minimumCalls: 4 });
+
+    cb.onFailure();
+    cb.onFailure();
+    cb.onFailure();
+    expect(cb.getMetrics()).toMatchObject({ state: "closed", windowCalls: 3, failureCount: 3 });
+
+    cb.onSuccess();
+    expect(cb.getMetrics().state).toBe("open");
+
+    const mixed = new CircuitBreaker({ failureRateThreshold: 50, slidingWindowSize: 4, minimumCalls: 4 });
+    for (const failed of [true, false, false, false, true, false]) {
+      if (failed) mixed.onFailure();
+      else mixed.onSuccess();
+    }
+    expect(mixed.getMetrics()).toMatchObject({ state: "closed", failureRate: 25 });
+  });
+
+  it("opens when too many calls are slow", () => {
+    const cb = new CircuitBreaker({ slowCallDurationMs: 1_000, slowCallRateThreshold: 50, minimumCalls: 2 });
+    const opened = vi.fn();
+    cb.on("open", opened);
+
+    cb.onSuccess(200);
+    cb.onSuccess(1_500);
+
+    expect(cb.getMetrics()).toMatchObject({ state: "open", slowCallRate: 0, windowCalls: 0 });
+    expect(opened).toHaveBeenCalledWith(expect.objectContaining({ reason: "slow-call-rate" }));
+    expect(() => new CircuitBreaker({ failureRateThreshold: 0 })).toThrow(
+      "failureRateThreshold must be between 1 and 100, got 0"
+    );
+  });
+});
+
+describe("ApiClient breaker failure statuses", () => {
+  it("does not trip on 4xx by default but does on 5xx", async () => {
+    const notFound = clientReturning(404, { enabled: true, options: { failureThreshold: 1 } });
+    await notFound.get("/cases/missing").catch(() => undefined);
+    expect(notFound.getCircuitBreakerMetrics()?.state).toBe("closed");
+
+    const failing = clientReturning(502, { enabled: true, options: { failureThreshold: 1 } });
+    await failing.get("/cases/1").catch(() => undefined);
+    expect(failing.getCircuitBreakerMetrics()?.state).toBe("open");
+  });
+
+  it("honours custom failureStatuses and forwards breaker events", async () => {
+    const events: CircuitBreakerRegistryEvent[] = [];
+    const client = clientReturning(409, {
+      enabled: true,
+      keyBy: "host",
+      options: { failureThreshold: 1 },
+      failureStatuses: (status) => status === 409,
+      onEvent: (event) => events.push(event),
+    });
+
+    await client.get("/cases/1").catch(() => undefined);
+    await client.get("/cases/1").catch(() => undefined);
+
+    expect(events.map((event) => `${event.key} ${event.type}`)).toEqual([
+      "example.test open",
+      "example.test rejected",
+    ]);
+  });
+});
@@ -0,0 +1,151 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it, vi } from "vitest";
+import type { APIRequestContext, APIResponse } from "@playwright/test";
+import { ApiClient } from "../../src/utils/api-client.js";
+import { CircuitBreakerRegistry } from "../../src/utils/circuit-breaker.js";
+
+function jsonResponse(status: number): APIResponse {
+  return {
+    status: () => status,
+    ok: () => status >= 200 && status < 300,
+    headers: () => ({ "content-type": "application/json" }),
+    text: async () => "{}",
+  } as unknown as APIResponse;
+}
+
+/** Fake context answering 500 for URLs containing `failing` and 200 otherwise */
+function contextFactory() {
+  const fetch = vi.fn(async (url: string) => jsonResponse(url.includes("failing") ? 500 : 200));
+  return async () => ({ fetch, dispose: vi.fn() }) as unknown as APIRequestContext;
+}
+
+describe("keyed circuit breakers", () => {
+  it("opens the breaker for one endpoint template without blocking others", async () => {
+    const client = new ApiClient({
+      baseUrl: "https://ccd.test",
+      requestFactory: contextFactory(),
+      circuitBreaker: { enabled: true, keyBy: "endpoint", options: { failureThreshold: 2 } },
+    });
+
+    await client.get("/failing/1234567890123456").catch(() => undefined);
+    await client.get("/failing/6543210987654321").catch(() => undefined);
+
+    await expect(client.get("/failing/1")).rejects.toThrow(
+      "Circuit open: request blocked (ccd.test/failing/:id)"
+    );
+    await expect(client.get("/cases/1")).resolves.toMatchObject({ status: 200 });
+
+    const metrics = client.getCircuitBreakerMetrics();
+    expect(metrics?.state).toBe("open");
+    expect(Object.keys(metrics?.breakers ?? {}).sort()).toEqual([
+      "ccd.test/cases/:id",
+      "ccd.test/failing/:id",
+    ]);
+    expect(metrics?.breakers?.["ccd.test/cases/:id"]?.state).toBe("closed");
+  });
+
+  it("shares host breakers between clients through a registry", async () => {
+    const registry = new CircuitBreakerRegistry({ defaults: { failureThreshold: 1 } });
+    const first = new ApiClient({
+      baseUrl: "https://failing.test",
+      requestFactory: contextFactory(),
+      circuitBreaker: { enabled: true, keyBy: "host", registry },
+    });
+    const second = new ApiClient({
+      baseUrl: "https://failing.test",
+      requestFactory: contextFactory(),
+      circuitBreaker: { enabled: true, keyBy: "host", registry },
+    });
+
+    await first.get("/a").catch(() => undefined);
+
+    await expect(second.get("/b")).rejects.toThrow("Circuit open");
+    expect(registry.getMetrics()).toMatchObject({ state: "open", total: 1, open: 1, closed: 0 });
+  });
+
+  it("stops forwarding events to clients once they are disposed", async () => {
+    const registry = new CircuitBreakerRegistry({ defaults: { failureThreshold: 1 } });
+    const warning = vi.fn();
+    process.on("warning", warning);
+    const events: string[] = [];
+    const clients = Array.from(
+      { length: 15 },
+      (_, index) =>
+        new ApiClient({
+          baseUrl: "https://failing.test",
+          requestFactory: contextFactory(),
+          circuitBreaker: { enabled: true, keyBy: "host", registry, onEvent: (event) => events.push(`${index}:${event.type}`) },
+        })
+    );
+    try {
+      await clients[0]?.get("/a").catch(() => undefined);
+      expect(events).toEqual(["0:open"]);
+
+      await Promise.all(clients.map((client) => client.dispose()));
+      registry.reset();
+      const next = new ApiClient({
+        baseUrl: "https://failing.test",
+        requestFactory: contextFactory(),
+        circuitBreaker: { enabled: true, keyBy: "host", registry },
+      });
+      await next.get("/a").catch(() => undefined);
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(events).toEqual(["0:open"]);
+      expect(warning).not.toHaveBeenCalled();
+    } finally {
+      process.off("warning", warning);
+    }
+  });
+
+  it("keys breakers with a custom function", async () => {
+    const keyBy = vi.fn(({ method, path }: { method: string; path: string }) =>
+      `${method} ${path.split("/")[1]}`
+    );
+    const client = new ApiClient({
+      baseUrl: "https://ccd.test",
+      requestFactory: contextFactory(),
+      circuitBreaker: { enabled: true, keyBy },
+    });
+
+    await client.get("/cases/1");
+    await client.post("/failing/2", { retry: false }).catch(() => undefined);
+
+    expect(Object.keys(client.getCircuitBreakerMetrics()?.breakers ?? {})).toEqual([
+      "GET cases",
+      "POST failing",
+    ]);
+    expect(keyBy).toHaveBeenCalledWith(
+      expect.objectContaining({ url: "https://ccd.test/cases/1", path: "/cases/1" })
+    );
+  });
+
+  it("lets workers see circuits opened by each other through a state file", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "breakers-"));
+    try {
+      const stateFile = path.join(dir, "breakers.json");
+      const worker1 = new CircuitBreakerRegistry({ stateFile, defaults: { failureThreshold: 1 } });
+      const worker2 = new CircuitBreakerRegistry({ stateFile, defaults: { failureThreshold: 1 } });
+
+      expect(worker2.get("idam").canProceed()).toBe(true);
+      worker1.get("idam").onFailure();
+
+      expect(worker2.get("idam").canProceed()).toBe(false);
+      expect(worker2.getMetrics().breakers.idam?.state).toBe("open");
+
+      // Each key has its own file, so workers writing different breakers cannot clobber each other
+      worker2.get("ccd").onFailure();
+      const worker3 = new CircuitBreakerRegistry({ stateFile, defaults: { failureThreshold: 1 } });
+      expect(worker3.get("idam").canProceed()).toBe(false);
+      expect(worker3.get("ccd").canProceed()).toBe(false);
+      expect(fs.readdirSync(dir).sort()).toEqual([
+        expect.stringMatching(/^breakers\.[0-9a-f]{16}\.json$/),
+        expect.stringMatching(/^breakers\.[0-9a-f]{16}\.json$/),
+      ]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, expect, it, vi } from "vitest";
+import type { APIRequestContext, APIResponse } from "@playwright/test";
+import { ApiClient, ApiClientError } from "../../src/utils/api-client.js";
+import type { ApiLogEntry } from "../../src/utils/api-client.js";
+import { ApiGraphQLError, GraphQLClient } from "../../src/utils/graphql-client.js";
+
+function jsonResponse(status: number, body: unknown): APIResponse {
+  return {
+    status: () => status,
+    ok: () => status >= 200 && status < 300,
+    headers: () => ({ "content-type": "application/json" }),
+    text: async () => JSON.stringify(body),
+  } as unknown as APIResponse;
+}
+
+function contextFor(...responses: APIResponse[]) {
+  const fetch = vi.fn<APIRequestContext["fetch"]>(async () => {
+    const next = responses.length > 1 ? responses.shift() : responses[0];
+    return next as APIResponse;
+  });
+  return {
+    requestFactory: async () => ({ fetch, dispose: vi.fn() }) as unknown as APIRequestContext,
+    fetch,
+  };
+}
+
+const GET_CASE = `query GetCase($id: ID!) { case(id: $id) { id state } }`;
+
+describe("GraphQLClient", () => {
+  it("posts the document, variables and operation name and returns typed data", async () => {
+    const { requestFactory, fetch } = contextFor(
+      jsonResponse(200, { data: { case: { id: "1", state: "Open" } }, extensions: { cost: 3 } })
+    );
+    const entries: ApiLogEntry[] = [];
+    const gql = new GraphQLClient({
+      baseUrl: "https://example.test",
+      requestFactory,
+      onResponse: (entry) => entries.push(entry),
+    });
+
+    const result = await gql.query<{ case: { id: string; state: string } }>(GET_CASE, { id: "1" });
+
+    expect(result.data.case.state).toBe("Open");
+    expect(result.extensions).toEqual({ cost: 3 });
+    expect(fetch).toHaveBeenCalledWith(
+      "https://example.test/graphql",
+      expect.objectContaining({
+        method: "POST",
+        data: { query: GET_CASE, variables: { id: "1" }, operationName: "GetCase" },
+      })
+    );
+    expect(entries[0]?.operation).toBe("query GetCase");
+  });
+
+  it("turns an errors array on a 200 into ApiGraphQLError via onError and the breaker", async () => {
+    const { requestFactory } = contextFor(
+      jsonResponse(200, {
+        data: null,
+        errors: [{ message: "Case not found", extensions: { code: "NOT_FOUND" } }],
+      })
+    );
+    const onError = vi.fn();
+    const gql = new GraphQLClient({
+      baseUrl: "https://example.test",
+      requestFactory,
+      onError,
+      circuitBreaker: { enabled: true, options: { failureThreshold: 2 } },
+    });
+
+    const error = await gql.query(GET_CASE, { id: "x" }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ApiGraphQLError);
+    expect(error).toBeInstanceOf(ApiClientError);
+    const graphqlError = error as ApiGraphQLError;
+    expect(graphqlError.message).toBe("GraphQL GetCase failed: Case not found");
+    expect(graphqlError.codes).toEqual(["NOT_FOUND"]);
+    expect(graphqlError.logEntry.error).toBe(graphqlError.message);
+    expect(onError).toHaveBeenCalledWith(graphqlError);
+
+    await gql.query(GET_CASE).catch(() => undefined);
+    expect(gql.client.getCircuitBreakerMetrics()?.state).toBe("open");
+  });
+
+  it("keeps the GraphQL errors of a 4xx/5xx response", async () => {
+    const { requestFactory } = contextFor(
+      jsonResponse(400, { errors: [{ message: 'Variable "$id" of required type "ID!" was not provided.' }] })
+    );
+    const gql = new GraphQLClient({ baseUrl: "https://example.test", requestFactory, retry: { attempts: 1 } });
+
+    const error = await gql.query(GET_CASE).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ApiGraphQLError);
+    expect(error).toMatchObject({
+      status: 400,
+      message: 'GraphQL GetCase failed: Variable "$id" of required type "ID!" was not provided.',
+      errors: [{ message: 'Variable "$id" of required type "ID!" was not provided.' }],
+    });
+
+    const { requestFactory: plain } = contextFor(jsonResponse(500, { message: "Internal Server Error" }));
+    await expect(
+      new GraphQLClient({ baseUrl: "https://example.test", requestFactory: plain, retry: { attempts: 1 } }).query(GET_CASE)
+    ).rejects.toMatchObject({ name: "ApiClientError", status: 500 });
+  });
+
+  it("returns partial data with errors when allowed", async () => {
+    const { requestFactory } = contextFor(
+      jsonResponse(200, {
+        data: { case: { id: "1", state: null } },
+        errors: [{ message: "state resolver failed", path: ["case", "state"] }],
+      })
+    );
+    const gql = new GraphQLClient({ baseUrl: "https://example.test", requestFactory });
+
+    const result = await gql.query(GET_CASE, { id: "1" }, { allowPartialData: true });
+
+    expect(result.data).toEqual({ case: { id: "1", state: null } });
+    expect(result.errors?.[0]?.path).toEqual(["case", "state"]);
+  });
+
+  it("retries queries under the client policy but not mutations", async () => {
+    const flaky = () =>
+      contextFor(jsonResponse(503, {}), jsonResponse(200, { data: { ok: true } }));
+    const queryContext = flaky();
+    const retrying = new ApiClient({
+      baseUrl: "https://example.test",
+      requestFactory: queryContext.requestFactory,
+      retry: { attempts: 2, baseMs: 1, maxMs: 1 },
+    });
+    await new GraphQLClient({ client: retrying, endpoint: "/api/graphql" }).query("{ ok }");
+    expect(queryContext.fetch).toHaveBeenCalledTimes(2);
+    expect(queryContext.fetch.mock.calls[0]?.[0]).toBe("https://example.test/api/graphql");
+
+    const mutationContext = flaky();
+    const gql = new GraphQLClient({
+      baseUrl: "https://example.test",
+      requestFactory: mutationContext.requestFactory,
+      retry: { attempts: 2, baseMs: 1, maxMs: 1 },
+    });
+    await expect(gql.mutation("mutation Submit { submit }")).rejects.toMatchObject({
+      status: 503,
+    });
+    expect(mutationContext.fetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,104 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { ApiHarRecorder, buildHar } from "../../src/utils/har.utils.js";
+import type { ApiLogEntry } from "../../src/utils/api-client.js";
+
+const ORIGINAL_ENV = { ...process.env };
+
+afterEach(() => {
+  process.env = { ...ORIGINAL_ENV };
+});
+
+function entry(overrides: Partial<ApiLogEntry> = {}): ApiLogEntry {
+  return {
+    id: "1",
+    name: "ccd",
+    method: "POST",
+    url: "https://example.test/cases",
+    status: 201,
+    ok: true,
+    timestamp: "2026-01-01T00:00:00.000Z",
+    durationMs: 42,
+    correlationId: "corr-1",
+    request: {
+      headers: { Authorization: "[REDACTED]", "content-type": "application/json" },
+      data: { password: "[REDACTED]", name: "case" },
+      query: { page: 1 },
+    },
+    response: {
+      headers: { "content-type": "application/json" },
+      body: { id: 123 },
+    },
+    rawRequest: { data: { password: "raw-secret", name: "case" } },
+    rawResponse: '{"id":123,"token":"raw-token"}',
+    ...overrides,
+  };
+}
+
+describe("buildHar", () => {
+  it("produces a HAR 1.2 log from redacted entries", () => {
+    const har = buildHar([entry()]);
+
+    expect(har.log.version).toBe("1.2");
+    const [harEntry] = har.log.entries;
+    expect(harEntry?.request.url).toBe("https://example.test/cases?page=1");
+    expect(harEntry?.request.headers).toContainEqual({
+      name: "Authorization",
+      value: "[REDACTED]",
+    });
+    expect(harEntry?.request.postData?.text).toBe('{"password":"[REDACTED]","name":"case"}');
+    expect(harEntry?.response.statusText).toBe("Created");
+    expect(harEntry?.response.content).toEqual({
+      size: 10,
+      mimeType: "application/json",
+      text: '{"id":123}',
+    });
+    expect(harEntry?.timings.wait).toBe(42);
+    expect(harEntry?._correlationId).toBe("corr-1");
+  });
+
+  it("ignores raw bodies unless debug mode allows them", () => {
+    delete process.env.PLAYWRIGHT_DEBUG_API;
+    process.env.NODE_ENV = "test";
+    const blocked = buildHar([entry()], { includeRaw: true }).log.entries[0];
+    expect(blocked?.response.content.text).not.toContain("raw-token");
+
+    process.env.PLAYWRIGHT_DEBUG_API = "1";
+    const allowed = buildHar([entry()], { includeRaw: true }).log.entries[0];
+    expect(allowed?.response.content.text).toContain("raw-token");
+    expect(allowed?.request.postData?.text).toContain("raw-secret");
+  });
+
+  it("encodes forms as url-encoded params", () => {
+    const har = buildHar([
+      entry({ request: { form: { grant_type: "password", client_secret: "[REDACTED]" } } }),
+    ]);
+    expect(har.log.entries[0]?.request.postData).toEqual({
+      mimeType: "application/x-www-form-urlencoded",
+      text: "grant_type=password&client_secret=%5BREDACTED%5D",
+      params: [
+        { name: "grant_type", value: "password" },
+        { name: "client_secret", value: "[REDACTED]" },
+      ],
+    });
+  });
+});
+
+describe("ApiHarRecorder", () => {
+  it("records entries via onResponse and saves a HAR file", () => {
+    const recorder = new ApiHarRecorder();
+    const { record } = recorder;
+    record(entry());
+    record(entry({ method: "GET", status: 0, ok: false, error: "socket hang up" }));
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "har-"));
+    const file = recorder.save(path.join(dir, "nested", "api.har"));
+    const saved = JSON.parse(fs.readFileSync(file, "utf8"));
+
+    expect(saved.log.entries).toHaveLength(2);
+    expect(saved.log.entries[1].comment).toBe("socket hang up");
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
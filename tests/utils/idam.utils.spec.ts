@@ -129,6 +129,33 @@ describe("IdamUtils", () => {
     );
   });
 
+  it("treats IDAM_RETRY_ATTEMPTS=0 as a single attempt", async () => {
+    process.env.IDAM_RETRY_ATTEMPTS = "0";
+    const { instance: tokenClient, mock: tokenClientMock } =
+      createApiClientMock();
+    tokenClientMock.post.mockResolvedValue(
+      buildResponse({ access_token: "token-value" })
+    );
+    const { instance: supportClient } = createApiClientMock();
+    const utils = new IdamUtils({
+      tokenClient,
+      testingSupportClient: supportClient,
+      logger: silentLogger(),
+    });
+
+    await utils.generateIdamToken({
+      grantType: "client_credentials",
+      clientId: "client",
+      clientSecret: "secret",
+      scope: "profile",
+    });
+
+    expect(tokenClientMock.post).toHaveBeenCalledWith(
+      "o/token",
+      expect.objectContaining({ retry: expect.objectContaining({ attempts: 1 }) })
+    );
+  });
+
   it("throws a descriptive error when token generation fails", async () => {
     const error = new ApiClientError(
       "Failed",
@@ -0,0 +1,121 @@
+import { PassThrough } from "stream";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { transports as winstonTransports } from "winston";
+import { ApiClient, ApiClientError } from "../../src/utils/api-client.js";
+import { IdamUtils } from "../../src/utils/idam.utils.js";
+import { createLogger } from "../../src/logging/logger.js";
+import { MockServer, mockIdam, mockS2s } from "../../src/utils/mock-server.js";
+import { ServiceAuthUtils } from "../../src/utils/service-auth.utils.js";
+
+const ORIGINAL_ENV = { ...process.env };
+
+function silentLogger() {
+  return createLogger({ transports: [new winstonTransports.Stream({ stream: new PassThrough() })], format: "json" });
+}
+
+describe("MockServer", () => {
+  let server: MockServer;
+
+  beforeEach(async () => {
+    server = await MockServer.start();
+  });
+
+  afterEach(async () => {
+    process.env = { ...ORIGINAL_ENV };
+    await server.stop();
+  });
+
+  it("routes by method and path pattern and journals requests for ApiClient", async () => {
+    server
+      .get("/cases/:id", (req) => ({ body: { id: req.params.id, state: "Open" } }))
+      .post("/cases", (req) => ({ status: 201, body: { created: req.json } }))
+      .get("/cases/:id", { status: 503, body: "unavailable" }, { times: 1 });
+    const client = new ApiClient({ baseUrl: server.url, retry: { attempts: 1 }, logger: silentLogger() });
+
+    await expect(client.get("/cases/123")).rejects.toBeInstanceOf(ApiClientError);
+    await expect(client.get("/cases/123")).resolves.toMatchObject({ status: 200, data: { id: "123", state: "Open" } });
+    await expect(client.post("/cases", { data: { caseType: "Civil" } })).resolves.toMatchObject({
+      status: 201,
+      data: { created: { caseType: "Civil" } },
+    });
+    await expect(client.get("/unknown")).rejects.toMatchObject({ status: 404 });
+    await client.dispose();
+
+    expect(server.requests.map((entry) => [entry.method, entry.path, entry.status])).toEqual([
+      ["GET", "/cases/123", 503],
+      ["GET", "/cases/123", 200],
+      ["POST", "/cases", 201],
+      ["GET", "/unknown", 404],
+    ]);
+    expect(server.requestsTo("GET", "/cases/:id")).toHaveLength(2);
+    expect(server.requestsTo("POST", "/cases")[0]?.json).toEqual({ caseType: "Civil" });
+  });
+
+  it("injects latency and connection faults", async () => {
+    server.get("/slow", { body: { ok: true }, delayMs: 60 });
+    server.get("/flaky", { body: { ok: true } });
+    server.get("/flaky", { body: {} }, { fault: "reset", times: 1 });
+    server.get("/hang", { body: {} }, { fault: "hang" });
+    const client = new ApiClient({ baseUrl: server.url, retry: { attempts: 1 }, logger: silentLogger() });
+
+    const started = Date.now();
+    await client.get("/slow");
+    expect(Date.now() - started).toBeGreaterThanOrEqual(50);
+
+    await expect(client.get("/flaky")).rejects.toMatchObject({ status: 0 });
+    await expect(client.get("/flaky")).resolves.toMatchObject({ status: 200 });
+    await expect(client.get("/hang", { timeoutMs: 100 })).rejects.toThrow(/Timeout/i);
+    await client.dispose();
+
+    expect(server.requestsTo("GET", "/flaky").map((entry) => entry.fault)).toEqual(["reset", undefined]);
+    expect(() => server.get("/x", {}, { times: 0 })).toThrow("times must be >= 1, got 0");
+  });
+
+  it("answers instead of hanging when a path or handler response is malformed", async () => {
+    server.get("/cases/:id", (req) => ({ body: { id: req.params.id } }));
+    server.get("/bad-header", { headers: { "x-note": "line\nbreak" }, body: {} });
+
+    const badPath = await fetch(`${server.url}/cases/%E0%A4%A`, { signal: AbortSignal.timeout(2_000) });
+    const badHeader = await fetch(`${server.url}/bad-header`, { signal: AbortSignal.timeout(2_000) });
+
+    expect(badPath.status).toBe(400);
+    expect(await badPath.json()).toEqual({ error: "URI malformed" });
+    expect(badHeader.status).toBe(500);
+    expect(server.requests.map((entry) => entry.status)).toEqual([400, 500]);
+  });
+
+  it("stands in for IDAM, testing-support and S2S lease endpoints", async () => {
+    const idam = mockIdam(server);
+    mockS2s(server, { allowedServices: ["xui_webapp"] });
+    process.env.IDAM_WEB_URL = server.url;
+    process.env.IDAM_TESTING_SUPPORT_URL = server.url;
+    process.env.S2S_URL = `${server.url}/testing-support/lease`;
+    const idamUtils = new IdamUtils({ logger: silentLogger() });
+    const serviceAuth = new ServiceAuthUtils({ logger: silentLogger() });
+
+    const bearerToken = await idamUtils.generateIdamToken({
+      grantType: "client_credentials",
+      clientId: "xui",
+      clientSecret: "secret",
+      scope: "profile roles",
+    });
+    const user = await idamUtils.createUser({
+      bearerToken,
+      password: "Password12!",
+      user: { email: "solicitor@test.local", forename: "Sol", surname: "Icitor", roleNames: ["caseworker"] },
+    });
+    const info = await idamUtils.getUserInfo({ email: user.email, bearerToken });
+    const s2sToken = await serviceAuth.retrieveToken({ microservice: "xui_webapp" });
+    await expect(serviceAuth.retrieveToken({ microservice: "unknown" })).rejects.toThrow();
+    await Promise.all([idamUtils.dispose(), serviceAuth.dispose()]);
+
+    expect(bearerToken.split(".")).toHaveLength(3);
+    expect(info).toMatchObject({ id: user.id, displayName: "Sol Icitor" });
+    expect(idam.users.get(user.id)?.roleNames).toEqual(["caseworker"]);
+    expect(idam.tokenRequests[0]).toMatchObject({ grant_type: "client_credentials", client_id: "xui" });
+    expect(JSON.parse(Buffer.from(s2sToken.split(".")[1] ?? "", "base64url").toString())).toMatchObject({
+      sub: "xui_webapp",
+    });
+    expect(server.requestsTo("POST", "/test/idam/users")[0]?.headers.authorization).toBe(`Bearer ${bearerToken}`);
+  });
+});
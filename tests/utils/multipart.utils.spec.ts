@@ -0,0 +1,151 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { createHash } from "node:crypto";
+import { Readable } from "node:stream";
+import { describe, expect, it, vi } from "vitest";
+import type { APIRequestContext, APIResponse } from "@playwright/test";
+import { ApiClient, ApiClientError } from "../../src/utils/api-client.js";
+import type { ApiLogEntry } from "../../src/utils/api-client.js";
+import { guessMimeType, resolveMultipart } from "../../src/utils/multipart.utils.js";
+
+const PDF_BYTES = Buffer.from([0x25, 0x50, 0x44, 0x46, 0x00, 0xff, 0xfe, 0x80]);
+const sha256 = (bytes: Buffer) => createHash("sha256").update(bytes).digest("hex");
+
+function binaryResponse(status: number, body: Buffer, contentType: string): APIResponse {
+  return {
+    status: () => status,
+    ok: () => status >= 200 && status < 300,
+    headers: () => ({ "content-type": contentType }),
+    text: async () => body.toString("utf8"),
+    body: async () => body,
+  } as unknown as APIResponse;
+}
+
+function clientFor(response: APIResponse, entries: ApiLogEntry[] = []) {
+  const fetch = vi.fn<APIRequestContext["fetch"]>(async () => response);
+  const client = new ApiClient({
+    baseUrl: "https://example.test",
+    requestFactory: async () => ({ fetch, dispose: vi.fn() }) as unknown as APIRequestContext,
+    onResponse: (entry) => entries.push(entry),
+    retry: { attempts: 2, baseMs: 1, maxMs: 1, retryNonIdempotent: true },
+  });
+  return { client, fetch };
+}
+
+describe("multipart uploads", () => {
+  it("sends files from path, buffer and stream and logs summaries", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "multipart-"));
+    const filePath = path.join(dir, "evidence.pdf");
+    fs.writeFileSync(filePath, PDF_BYTES);
+    const entries: ApiLogEntry[] = [];
+    const { client, fetch } = clientFor(
+      binaryResponse(201, Buffer.from('{"documents":[]}'), "application/json"),
+      entries
+    );
+
+    await client.post("/documents", {
+      multipart: {
+        classification: "PUBLIC",
+        fromPath: { path: filePath },
+        fromBuffer: { buffer: PDF_BYTES, name: "scan.png" },
+        fromStream: { stream: Readable.from([PDF_BYTES]), name: "letter.docx" },
+      },
+    });
+
+    const sent = fetch.mock.calls[0]?.[1] as { multipart: Record<string, unknown> };
+    expect(sent.multipart.classification).toBe("PUBLIC");
+    expect(sent.multipart.fromPath).toEqual({
+      name: "evidence.pdf",
+      mimeType: "application/pdf",
+      buffer: PDF_BYTES,
+    });
+    expect(sent.multipart.fromBuffer).toMatchObject({ name: "scan.png", mimeType: "image/png" });
+    expect(sent.multipart.fromStream).toMatchObject({ buffer: PDF_BYTES });
+
+    const logged = entries[0]?.request.multipart;
+    expect(logged?.classification).toBe("PUBLIC");
+    expect(logged?.fromPath).toEqual({
+      fileName: "evidence.pdf",
+      binary: true,
+      size: PDF_BYTES.length,
+      contentType: "application/pdf",
+      sha256: sha256(PDF_BYTES),
+    });
+    expect(JSON.stringify(entries[0])).not.toContain('"data":[');
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reads streams once so retries resend the same bytes", async () => {
+    const responses = [
+      binaryResponse(503, Buffer.from(""), "text/plain"),
+      binaryResponse(201, Buffer.from("{}"), "application/json"),
+    ];
+    const fetch = vi.fn(async () => responses.shift()!);
+    const client = new ApiClient({
+      baseUrl: "https://example.test",
+      requestFactory: async () => ({ fetch, dispose: vi.fn() }) as unknown as APIRequestContext,
+      retry: { attempts: 2, baseMs: 1, maxMs: 1, retryNonIdempotent: true },
+    });
+
+    await client.post("/documents", {
+      multipart: { file: { stream: Readable.from([PDF_BYTES]), name: "a.pdf" } },
+    });
+
+    const buffers = fetch.mock.calls.map(
+      (call) => ((call as unknown[])[1] as { multipart: { file: { buffer: Buffer } } }).multipart.file.buffer
+    );
+    expect(buffers).toEqual([PDF_BYTES, PDF_BYTES]);
+  });
+
+  it("rejects file parts without exactly one source", async () => {
+    await expect(resolveMultipart({ file: { name: "a.pdf" } })).rejects.toThrow(
+      'multipart field "file" needs exactly one of path, buffer or stream'
+    );
+    expect(guessMimeType("REPORT.XLSX")).toBe(
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+    );
+    expect(guessMimeType("unknown.bin")).toBe("application/octet-stream");
+  });
+});
+
+describe("binary downloads", () => {
+  it("returns a Buffer intact and logs a summary instead of the bytes", async () => {
+    const entries: ApiLogEntry[] = [];
+    const { client } = clientFor(binaryResponse(200, PDF_BYTES, "application/pdf"), entries);
+
+    const res = await client.get<Buffer>("/documents/1/binary", { responseType: "buffer" });
+
+    expect(Buffer.isBuffer(res.data)).toBe(true);
+    expect(res.data.equals(PDF_BYTES)).toBe(true);
+    expect(entries[0]?.response.body).toEqual({
+      binary: true,
+      size: PDF_BYTES.length,
+      contentType: "application/pdf",
+      sha256: sha256(PDF_BYTES),
+    });
+  });
+
+  it("returns a readable stream when requested", async () => {
+    const { client } = clientFor(binaryResponse(200, PDF_BYTES, "application/pdf"));
+
+    const res = await client.get<Readable>("/documents/1/binary", { responseType: "stream" });
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of res.data) chunks.push(chunk as Buffer);
+    expect(Buffer.concat(chunks).equals(PDF_BYTES)).toBe(true);
+  });
+
+  it("decodes error bodies of binary requests as text/JSON", async () => {
+    const { client } = clientFor(
+      binaryResponse(404, Buffer.from('{"error":"not found"}'), "application/json")
+    );
+
+    const error = await client
+      .get("/documents/missing/binary", { responseType: "buffer" })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ApiClientError);
+    expect((error as ApiClientError).logEntry.response.body).toEqual({ error: "not found" });
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, expect, it, vi } from "vitest";
+import type { APIRequestContext, APIResponse } from "@playwright/test";
+import { ApiClient } from "../../src/utils/api-client.js";
+import type { ApiLogEntry } from "../../src/utils/api-client.js";
+import {
+  cursorStrategy,
+  elasticsearchStrategy,
+  nextLinkStrategy,
+  offsetLimitStrategy,
+  pageSizeStrategy,
+} from "../../src/utils/pagination.utils.js";
+
+type FetchOptions = Parameters<APIRequestContext["fetch"]>[1];
+
+function fakeResponse(body: unknown, headers: Record<string, string> = {}): APIResponse {
+  return {
+    status: () => 200,
+    ok: () => true,
+    headers: () => ({ "content-type": "application/json", ...headers }),
+    text: async () => JSON.stringify(body),
+  } as unknown as APIResponse;
+}
+
+function routedClient(
+  route: (url: string, options: FetchOptions) => APIResponse,
+  onResponse?: (entry: ApiLogEntry) => void
+) {
+  const fetch = vi.fn(async (url: string, options: FetchOptions) => route(url, options));
+  const client = new ApiClient({
+    baseUrl: "https://example.test",
+    requestFactory: async () =>
+      ({ fetch, dispose: vi.fn() }) as unknown as APIRequestContext,
+    ...(onResponse ? { onResponse } : {}),
+  });
+  return { client, fetch };
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
+
+const range = (from: number, count: number) => Array.from({ length: count }, (_, i) => from + i);
+
+describe("ApiClient.paginate", () => {
+  it("walks page/size pages until a short page and logs each page", async () => {
+    const entries: ApiLogEntry[] = [];
+    const { client, fetch } = routedClient((_url, options) => {
+      const page = Number(options?.params && (options.params as Record<string, number>).page);
+      return fakeResponse({ content: page < 2 ? range(page * 2, 2) : [4] });
+    }, (entry) => entries.push(entry));
+
+    const items = await collect(
+      client.paginate("GET", "/tasks", pageSizeStrategy({ pageSize: 2 }), {
+        query: { state: "open" },
+      })
+    );
+
+    expect(items).toEqual([0, 1, 2, 3, 4]);
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(fetch.mock.calls[2]?.[1]?.params).toEqual({ state: "open", page: "2", size: "2" });
+    expect(entries.map((entry) => entry.request.query)).toEqual([
+      { state: "open", page: 0, size: 2 },
+      { state: "open", page: 1, size: 2 },
+      { state: "open", page: 2, size: 2 },
+    ]);
+  });
+
+  it("stops at totalPages and honours offset/limit totals", async () => {
+    const paged = routedClient(() => fakeResponse({ content: [1, 2], totalPages: 2 }));
+    const pageItems = await collect(
+      paged.client.paginate(
+        "GET",
+        "/tasks",
+        pageSizeStrategy({ pageSize: 2, totalPagesPath: "totalPages" })
+      )
+    );
+    expect(pageItems).toHaveLength(4);
+
+    const offset = routedClient((_url, options) => {
+      const from = Number((options?.params as Record<string, number>).offset);
+      return fakeResponse({ items: range(from, Math.min(3, 5 - from)), total: 5 });
+    });
+    const offsetItems = await collect(
+      offset.client.paginate("GET", "/users", offsetLimitStrategy({ limit: 3, totalPath: "total" }))
+    );
+    expect(offsetItems).toEqual([0, 1, 2, 3, 4]);
+    expect(offset.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("follows cursors and Link headers", async () => {
+    const cursor = routedClient((_url, options) => {
+      const token = (options?.params as Record<string, string> | undefined)?.cursor;
+      return token
+        ? fakeResponse({ items: ["b"] })
+        : fakeResponse({ items: ["a"], next: "abc" });
+    });
+    expect(
+      await collect(cursor.client.paginate("GET", "/docs", cursorStrategy({ cursorPath: "next" })))
+    ).toEqual(["a", "b"]);
+
+    const linked = routedClient((url) =>
+      url.endsWith("/events")
+        ? fakeResponse(
+            { items: [1] },
+            { link: '<https://example.test/events?page=2>; rel="next", <https://example.test/events>; rel="first"' }
+          )
+        : fakeResponse({ items: [2] })
+    );
+    expect(
+      await collect(linked.client.paginate("GET", "/events", nextLinkStrategy(), { query: { a: 1 } }))
+    ).toEqual([1, 2]);
+    expect(linked.fetch.mock.calls[1]?.[0]).toBe("https://example.test/events?page=2");
+    expect(linked.fetch.mock.calls[1]?.[1]?.params).toBeUndefined();
+  });
+
+  it("resolves relative next links against the page URL, not the baseUrl", async () => {
+    const fetch = vi.fn(async (url: string) =>
+      url.endsWith("/items")
+        ? fakeResponse({ items: [1], next: "items?page=2" }, { link: '</api/v1/items?page=2>; rel="next"' })
+        : fakeResponse({ items: [2] })
+    );
+    const client = new ApiClient({
+      baseUrl: "https://example.test/api/v1",
+      requestFactory: async () => ({ fetch, dispose: vi.fn() }) as unknown as APIRequestContext,
+    });
+
+    expect(await collect(client.paginate("GET", "/items", nextLinkStrategy()))).toEqual([1, 2]);
+    expect(await collect(client.paginate("GET", "/items", nextLinkStrategy({ nextPath: "next" })))).toEqual([1, 2]);
+    expect(fetch.mock.calls.map(([url]) => url)).toEqual([
+      "https://example.test/api/v1/items",
+      "https://example.test/api/v1/items?page=2",
+      "https://example.test/api/v1/items",
+      "https://example.test/api/v1/items?page=2",
+    ]);
+  });
+
+  it("pages Elasticsearch bodies with from/size", async () => {
+    const { client, fetch } = routedClient((_url, options) => {
+      const from = (options?.data as { from: number }).from;
+      return fakeResponse({ cases: range(from, from === 0 ? 2 : 1), total: 3 });
+    });
+
+    const items = await collect(
+      client.paginate(
+        "POST",
+        "/searchCases",
+        elasticsearchStrategy({ itemsPath: "cases", totalPath: "total", size: 2 }),
+        { data: { query: { match_all: {} } } }
+      )
+    );
+
+    expect(items).toEqual([0, 1, 2]);
+    expect(fetch.mock.calls[1]?.[1]?.data).toEqual({ query: { match_all: {} }, from: 2, size: 2 });
+  });
+
+  it("caps items and pages", async () => {
+    const { client, fetch } = routedClient(() => fakeResponse({ content: [1, 2, 3] }));
+    const strategy = pageSizeStrategy({ pageSize: 3 });
+
+    expect(await collect(client.paginate("GET", "/tasks", strategy, { maxItems: 4 }))).toHaveLength(4);
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    fetch.mockClear();
+    expect(await collect(client.paginate("GET", "/tasks", strategy, { maxItems: 3 }))).toHaveLength(3);
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    fetch.mockClear();
+    expect(await collect(client.paginate("GET", "/tasks", strategy, { maxPages: 3 }))).toHaveLength(9);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("rejects invalid page sizes", () => {
+    expect(() => pageSizeStrategy({ pageSize: 0 })).toThrow(
+      "pageSize must be a positive integer, got 0"
+    );
+  });
+});
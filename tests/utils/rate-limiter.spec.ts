@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { APIRequestContext, APIResponse } from "@playwright/test";
+import { RateLimiter } from "../../src/utils/rate-limiter.js";
+import { ApiClient } from "../../src/utils/api-client.js";
+import type { ApiLogEntry } from "../../src/utils/api-client.js";
+
+function fakeResponse(status: number, headers: Record<string, string> = {}): APIResponse {
+  return {
+    status: () => status,
+    ok: () => status >= 200 && status < 300,
+    headers: () => headers,
+    text: async () => "{}",
+  } as unknown as APIResponse;
+}
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("caps requests in flight and serves waiters in order", async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 2 });
+    const first = await limiter.acquire();
+    await limiter.acquire();
+
+    const order: number[] = [];
+    const third = limiter.acquire().then((slot) => {
+      order.push(3);
+      return slot;
+    });
+    const fourth = limiter.acquire().then(() => order.push(4));
+    await vi.advanceTimersByTimeAsync(50);
+    expect(limiter.getMetrics()).toEqual({ inFlight: 2, queued: 2 });
+
+    first.release();
+    first.release(); // double release is ignored
+    const slot = await third;
+    expect(slot.waitedMs).toBe(50);
+    expect(order).toEqual([3]);
+
+    slot.release();
+    await fourth;
+    expect(order).toEqual([3, 4]);
+  });
+
+  it("refills tokens at the configured rate after a burst", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 10, burst: 2 });
+    await limiter.acquire();
+    await limiter.acquire();
+
+    let granted = false;
+    const third = limiter.acquire().then((slot) => {
+      granted = true;
+      return slot;
+    });
+    await vi.advanceTimersByTimeAsync(99);
+    expect(granted).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect((await third).waitedMs).toBe(100);
+  });
+
+  it("holds every waiter until a pause has elapsed", async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 5 });
+    limiter.pause(2_000);
+    limiter.pause(500); // shorter pause does not shorten the existing one
+
+    let granted = false;
+    void limiter.acquire().then(() => {
+      granted = true;
+    });
+    await vi.advanceTimersByTimeAsync(1_999);
+    expect(granted).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(granted).toBe(true);
+  });
+
+  it("validates options", () => {
+    expect(() => new RateLimiter({ requestsPerSecond: 0 })).toThrow(
+      "requestsPerSecond must be > 0, got 0"
+    );
+    expect(() => new RateLimiter({ burst: 0 })).toThrow("burst must be >= 1, got 0");
+    expect(() => new RateLimiter({ maxConcurrent: 0 })).toThrow(
+      "maxConcurrent must be >= 1, got 0"
+    );
+  });
+});
+
+describe("ApiClient rate limiting", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("limits concurrency and records queue wait in the log entry", async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const fetch = vi.fn(async () => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise((r) => setTimeout(r, 100));
+      inFlight--;
+      return fakeResponse(200);
+    });
+    const entries: ApiLogEntry[] = [];
+    const client = new ApiClient({
+      baseUrl: "https://example.test",
+      requestFactory: async () => ({ fetch, dispose: vi.fn() }) as unknown as APIRequestContext,
+      rateLimit: { maxConcurrent: 1 },
+      onResponse: (entry) => entries.push(entry),
+    });
+
+    const all = Promise.all([client.get("/a"), client.get("/b"), client.get("/c")]);
+    await vi.advanceTimersByTimeAsync(300);
+    await all;
+
+    expect(peak).toBe(1);
+    expect(entries.map((entry) => entry.queueWaitMs)).toEqual([0, 100, 200]);
+    expect(entries.every((entry) => entry.durationMs === 100)).toBe(true);
+  });
+
+  it("pauses the queue for Retry-After on 429", async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(fakeResponse(429, { "retry-after": "2" }))
+      .mockResolvedValue(fakeResponse(200));
+    const limiter = new RateLimiter({ requestsPerSecond: 100 });
+    const client = new ApiClient({
+      baseUrl: "https://example.test",
+      requestFactory: async () => ({ fetch, dispose: vi.fn() }) as unknown as APIRequestContext,
+      rateLimit: limiter,
+    });
+
+    await expect(client.get("/throttled")).rejects.toMatchObject({ status: 429 });
+    expect(client.getRateLimiterMetrics()?.pausedUntil).toBe(Date.now() + 2_000);
+
+    const next = client.get("/next");
+    await vi.advanceTimersByTimeAsync(2_000);
+    const res = await next;
+    expect(res.logEntry.queueWaitMs).toBe(2_000);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,229 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { APIRequestContext, APIResponse } from "@playwright/test";
+import { ApiClient } from "../../src/utils/api-client.js";
+import type { ApiLogEntry } from "../../src/utils/api-client.js";
+import {
+  FileCacheStore,
+  MemoryCacheStore,
+  buildCacheKey,
+  type ApiCacheOptions,
+} from "../../src/utils/response-cache.js";
+
+function response(status: number, body: unknown, headers: Record<string, string> = {}): APIResponse {
+  return {
+    status: () => status,
+    ok: () => status >= 200 && status < 300,
+    headers: () => ({ "content-type": "application/json", ...headers }),
+    text: async () => (body === undefined ? "" : JSON.stringify(body)),
+  } as unknown as APIResponse;
+}
+
+function cachedClient(
+  responses: APIResponse[],
+  cache: ApiCacheOptions
+) {
+  const fetch = vi.fn(async () => responses.shift() as APIResponse);
+  const entries: ApiLogEntry[] = [];
+  const client = new ApiClient({
+    baseUrl: "https://example.test",
+    requestFactory: async () => ({ fetch, dispose: vi.fn() }) as unknown as APIRequestContext,
+    cache,
+    onResponse: (entry) => entries.push(entry),
+  });
+  return { client, fetch, entries };
+}
+
+describe("ApiClient response cache", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("serves fresh GETs from cache and records hit/miss", async () => {
+    const { client, fetch, entries } = cachedClient(
+      [response(200, { venues: ["Taylor House"] })],
+      { ttlMs: 1_000 }
+    );
+
+    const first = await client.get<{ venues: string[] }>("/venues", { query: { region: 1 } });
+    const second = await client.get<{ venues: string[] }>("/venues", { query: { region: 1 } });
+
+    expect(second.data).toEqual(first.data);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(entries.map((entry) => entry.cache)).toEqual(["miss", "hit"]);
+  });
+
+  it("revalidates expired entries with If-None-Match and If-Modified-Since", async () => {
+    const { client, fetch, entries } = cachedClient(
+      [
+        response(200, { id: 1 }, { etag: '"v1"', "last-modified": "Wed, 01 Jan 2026 00:00:00 GMT" }),
+        response(304, undefined),
+      ],
+      { ttlMs: 1_000 }
+    );
+
+    await client.get("/judges/1");
+    vi.advanceTimersByTime(1_001);
+    const revalidated = await client.get<{ id: number }>("/judges/1");
+
+    const headers = (fetch.mock.calls[1] as unknown[])[1] as { headers: Record<string, string> };
+    expect(headers.headers["If-None-Match"]).toBe('"v1"');
+    expect(headers.headers["If-Modified-Since"]).toBe("Wed, 01 Jan 2026 00:00:00 GMT");
+    expect(revalidated.status).toBe(200);
+    expect(revalidated.data).toEqual({ id: 1 });
+    expect(entries[1]?.cache).toBe("revalidated");
+
+    await client.get("/judges/1");
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("skips non-GETs, per-request opt-outs, errors and no-store responses", async () => {
+    const { client, fetch, entries } = cachedClient(
+      [
+        response(200, { ok: 1 }),
+        response(200, { ok: 2 }),
+        response(500, {}),
+        response(200, { ok: 3 }, { "cache-control": "no-store" }),
+        response(200, { ok: 4 }),
+      ],
+      { ttlMs: 1_000 }
+    );
+
+    await client.post("/search");
+    await client.get("/a", { cache: false });
+    await client.get("/b", { throwOnError: false });
+    await client.get("/c");
+    await client.get("/c");
+
+    expect(fetch).toHaveBeenCalledTimes(5);
+    expect(entries.map((entry) => entry.cache)).toEqual([
+      undefined,
+      undefined,
+      "miss",
+      "miss",
+      "miss",
+    ]);
+  });
+
+  it("hands back a half-open breaker trial when the call is served from cache", async () => {
+    const responses = [response(200, { venues: [] }), response(500, {}), response(200, {})];
+    const fetch = vi.fn(async () => responses.shift() as APIResponse);
+    const client = new ApiClient({
+      baseUrl: "https://example.test",
+      requestFactory: async () => ({ fetch, dispose: vi.fn() }) as unknown as APIRequestContext,
+      cache: { ttlMs: 60_000 },
+      circuitBreaker: { enabled: true, options: { failureThreshold: 1, cooldownMs: 1_000 } },
+    });
+
+    await client.get("/venues");
+    await client.get("/cases", { throwOnError: false });
+    expect(client.getCircuitBreakerMetrics()?.state).toBe("open");
+
+    vi.advanceTimersByTime(1_000);
+    await client.get("/venues");
+    expect(client.getCircuitBreakerMetrics()).toMatchObject({ state: "half-open", halfOpenTrialCount: 0 });
+
+    await expect(client.get("/cases")).resolves.toMatchObject({ status: 200 });
+    expect(client.getCircuitBreakerMetrics()?.state).toBe("closed");
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("keys on the request as beforeRequest interceptors leave it", async () => {
+    const fetch = vi.fn(async () => response(200, { user: "me" }));
+    let user = "alice";
+    const client = new ApiClient({
+      baseUrl: "https://example.test",
+      requestFactory: async () => ({ fetch, dispose: vi.fn() }) as unknown as APIRequestContext,
+      cache: { ttlMs: 1_000, varyHeaders: ["authorization"] },
+      interceptors: [
+        {
+          beforeRequest: (request) => {
+            request.headers.Authorization = `Bearer ${user}`;
+          },
+        },
+      ],
+    });
+
+    await client.get("/me");
+    user = "bob";
+    await client.get("/me");
+    await client.get("/me");
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("keys on varyHeaders so per-user responses are not shared", () => {
+    const base = ["GET", "https://example.test/me", { b: 2, a: 1 }] as const;
+    const alice = buildCacheKey(...base, { Authorization: "Bearer a" }, ["authorization"]);
+    const bob = buildCacheKey(...base, { Authorization: "Bearer b" }, ["authorization"]);
+    const shared = buildCacheKey(...base, { Authorization: "Bearer a" });
+
+    expect(alice).not.toBe(bob);
+    expect(shared).toBe(buildCacheKey(...base, { Authorization: "Bearer b" }));
+    expect(shared).toContain("a=1&b=2");
+    expect(alice).not.toContain("Bearer");
+  });
+});
+
+describe("cache stores", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "api-cache-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const entry = (key: string) => ({
+    key,
+    status: 200,
+    headers: {},
+    body: "{}",
+    storedAt: 0,
+    expiresAt: Number.MAX_SAFE_INTEGER,
+  });
+
+  it("shares entries between FileCacheStore instances on the same directory", async () => {
+    new FileCacheStore(dir).set("GET /venues", entry("GET /venues"));
+
+    const worker2 = new FileCacheStore(dir);
+    expect(worker2.get("GET /venues")?.body).toBe("{}");
+    expect(worker2.get("GET /other")).toBeUndefined();
+
+    const client = new ApiClient({
+      baseUrl: "https://example.test",
+      requestFactory: async () => ({ fetch: vi.fn(), dispose: vi.fn() }) as unknown as APIRequestContext,
+      cache: { store: worker2 },
+    });
+    await client.clearCache();
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+
+  it("does not write set-cookie headers to disk", () => {
+    const store = new FileCacheStore(dir);
+    store.set("GET /me", { ...entry("GET /me"), headers: { "Set-Cookie": "__auth__=jwt", etag: '"v1"' } });
+
+    const [file] = fs.readdirSync(dir);
+    expect(fs.readFileSync(path.join(dir, file ?? ""), "utf8")).not.toContain("__auth__");
+    expect(store.get("GET /me")?.headers).toEqual({ etag: '"v1"' });
+  });
+
+  it("evicts the oldest memory entries beyond maxEntries", () => {
+    const store = new MemoryCacheStore(2);
+    store.set("a", entry("a"));
+    store.set("b", entry("b"));
+    store.set("c", entry("c"));
+
+    expect(store.get("a")).toBeUndefined();
+    expect(store.get("c")).toBeDefined();
+    expect(() => new MemoryCacheStore(0)).toThrow("maxEntries must be >= 1, got 0");
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from "vitest";
+import type { APIRequestContext, APIResponse } from "@playwright/test";
+import type { Logger } from "winston";
+import { ApiClient } from "../../src/utils/api-client.js";
+import { RetryBudget } from "../../src/utils/retry-budget.js";
+import { withRetry } from "../../src/utils/retry.utils.js";
+
+function quietLogger() {
+  return { warn: vi.fn() } as unknown as Logger & { warn: ReturnType<typeof vi.fn> };
+}
+
+describe("RetryBudget", () => {
+  it("allows retries up to the ratio of calls, with a floor, within the window", () => {
+    const logger = quietLogger();
+    const onExhausted = vi.fn();
+    const budget = new RetryBudget({ ratio: 0.5, windowMs: 1_000, minRetries: 1, logger, onExhausted });
+    for (let i = 0; i < 4; i++) budget.recordCall(0);
+
+    expect(budget.tryAcquireRetry(0)).toBe(true);
+    expect(budget.tryAcquireRetry(0)).toBe(true);
+    expect(budget.tryAcquireRetry(0)).toBe(false);
+    expect(budget.tryAcquireRetry(0)).toBe(false);
+
+    expect(budget.getMetrics(0)).toEqual({
+      calls: 4,
+      retries: 2,
+      allowedRetries: 2,
+      rejected: 2,
+      exhausted: true,
+    });
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+    expect(logger.warn.mock.calls[0]?.[0]).toContain("Retry budget exhausted: 2 retries for 4 calls");
+    expect(onExhausted).toHaveBeenCalledTimes(1);
+
+    // Old calls and retries slide out of the window; the floor still allows one retry
+    expect(budget.tryAcquireRetry(1_500)).toBe(true);
+    expect(budget.getMetrics(1_500)).toMatchObject({ calls: 0, retries: 1, exhausted: true });
+    expect(() => new RetryBudget({ ratio: 0 })).toThrow("ratio must be > 0, got 0");
+  });
+
+  it("stops withRetry once exhausted and surfaces the last error", async () => {
+    const budget = new RetryBudget({ minRetries: 1, ratio: 0.01, logger: quietLogger() });
+    const fn = vi.fn(async () => {
+      throw new Error("AAT is down");
+    });
+
+    await expect(withRetry(fn, { attempts: 5, baseMs: 0, maxMs: 0, budget })).rejects.toThrow("AAT is down");
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(budget.getMetrics()).toMatchObject({ calls: 2, retries: 1, rejected: 1 });
+  });
+
+  it("is shared with ApiClient retries", async () => {
+    const budget = new RetryBudget({ minRetries: 1, ratio: 0.01, logger: quietLogger() });
+    const fetch = vi.fn(async () =>
+      ({
+        status: () => 503,
+        ok: () => false,
+        headers: () => ({}),
+        text: async () => "",
+      }) as unknown as APIResponse
+    );
+    const client = new ApiClient({
+      baseUrl: "https://example.test",
+      requestFactory: async () => ({ fetch, dispose: vi.fn() }) as unknown as APIRequestContext,
+      retry: { attempts: 4, baseMs: 0, maxMs: 0, budget },
+    });
+
+    await expect(client.get("/health")).rejects.toMatchObject({ status: 503 });
+    await expect(client.get("/health")).rejects.toMatchObject({ status: 503 });
+
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(budget.getMetrics()).toMatchObject({ calls: 3, retries: 1, rejected: 2 });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { ApiClientError, type ApiLogEntry } from "../../src/utils/api-client.js";
+import { RetryClassifier, retryClassifier } from "../../src/utils/retry-classifier.js";
+import { isRetryableError } from "../../src/utils/retry.utils.js";
+
+function apiError(status: number, method: ApiLogEntry["method"] = "GET", message = `Request failed with status ${status}`) {
+  return new ApiClientError(message, status, {
+    id: "1",
+    name: "ccd",
+    method,
+    url: "https://ccd.test/cases",
+    status,
+    ok: false,
+    timestamp: "2026-01-01T00:00:00.000Z",
+    durationMs: 1,
+    request: {},
+    response: {},
+  });
+}
+
+function systemError(code: string, message = `connect ${code} 10.0.0.1:443`) {
+  return Object.assign(new Error(message), { code });
+}
+
+describe("retry classifier", () => {
+  it("classifies Node system error codes, including ones nested in cause or messages", () => {
+    expect(isRetryableError(systemError("ECONNREFUSED"))).toBe(true);
+    expect(isRetryableError(systemError("EAI_AGAIN"))).toBe(true);
+    expect(isRetryableError(new TypeError("fetch failed", { cause: systemError("UND_ERR_SOCKET", "other side closed") }))).toBe(true);
+    expect(isRetryableError(new Error("apiRequestContext.fetch: read ECONNRESET"))).toBe(true);
+    expect(isRetryableError(systemError("ENOTFOUND", "getaddrinfo ENOTFOUND ccd.invalid"))).toBe(false);
+    expect(isRetryableError(systemError("CERT_HAS_EXPIRED", "certificate has expired"))).toBe(false);
+  });
+
+  it("understands ApiClientError statuses, Playwright timeouts and method idempotency", () => {
+    expect(retryClassifier.classify(apiError(503))).toEqual({ retryable: true, rule: "http-status" });
+    expect(retryClassifier.classify(apiError(404))).toEqual({ retryable: false, rule: "http-status" });
+    expect(retryClassifier.classify(apiError(503, "POST"))).toEqual({
+      retryable: false,
+      rule: "non-idempotent-method",
+    });
+    expect(retryClassifier.isRetryable(apiError(503, "POST"), { retryNonIdempotent: true })).toBe(true);
+    expect(retryClassifier.classify(apiError(0, "POST", "Request failed: connect ECONNREFUSED ::1:4452"))).toEqual({
+      retryable: true,
+      rule: "connection-not-established",
+    });
+    expect(retryClassifier.classify(apiError(0, "GET", "Request failed: something odd"))).toEqual({
+      retryable: true,
+      rule: "api-client-network-error",
+    });
+
+    const timeout = Object.assign(new Error("apiRequestContext.get: Timeout 30000ms exceeded."), { name: "TimeoutError" });
+    expect(retryClassifier.classify(timeout).rule).toBe("playwright-timeout");
+    expect(retryClassifier.classify(new Error("validation failed"))).toEqual({ retryable: false, rule: "default" });
+  });
+
+  it("lets teams register rules ahead of the built-ins", () => {
+    const classifier = new RetryClassifier().use({
+      name: "ccd-callback",
+      classify: (error) => (String((error as Error).message).includes("callback") ? true : undefined),
+    });
+
+    expect(classifier.classify(apiError(422, "POST", "callback failed"))).toEqual({
+      retryable: true,
+      rule: "ccd-callback",
+    });
+    expect(classifier.ruleNames()[0]).toBe("ccd-callback");
+    expect(classifier.remove("http-status").classify(apiError(404)).rule).toBe("default");
+    expect(retryClassifier.ruleNames()).not.toContain("ccd-callback");
+  });
+});
@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { computeJitteredDelay, withRetry } from "../../src/utils/retry.utils.js";
+
+function failingTimes(times: number, value = "ok") {
+  let calls = 0;
+  return vi.fn(async () => {
+    calls++;
+    if (calls <= times) throw new Error(`fail ${calls}`);
+    return value;
+  });
+}
+
+describe("withRetry options object", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("calls onRetry before each sleep and returns a summary", async () => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    const onRetry = vi.fn();
+    const fn = failingTimes(2);
+
+    const pending = withRetry(fn, { attempts: 3, baseMs: 100, maxMs: 1000, jitter: "equal", onRetry, summary: true });
+    await vi.runAllTimersAsync();
+    const summary = await pending;
+
+    expect(summary).toMatchObject({ result: "ok", attempts: 3, totalDelayMs: 75 + 150 });
+    expect(onRetry.mock.calls.map(([attempt, error, delay]) => [attempt, (error as Error).message, delay])).toEqual([
+      [1, "fail 1", 75],
+      [2, "fail 2", 150],
+    ]);
+  });
+
+  it("passes the failed attempt number to retryOn", async () => {
+    const retryOn = vi.fn((_error: unknown, attempt: number) => attempt < 2);
+    const fn = failingTimes(5);
+
+    await expect(withRetry(fn, { attempts: 5, baseMs: 0, maxMs: 0, retryOn })).rejects.toThrow("fail 2");
+    expect(retryOn.mock.calls.map(([, attempt]) => attempt)).toEqual([1, 2]);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops retrying when the signal aborts", async () => {
+    vi.useFakeTimers();
+    const controller = new AbortController();
+    const fn = failingTimes(5);
+
+    const pending = withRetry(fn, { attempts: 5, baseMs: 1000, maxMs: 1000, signal: controller.signal });
+    const outcome = expect(pending).rejects.toThrow("cancelled");
+    await vi.advanceTimersByTimeAsync(10);
+    controller.abort(new Error("cancelled"));
+    await outcome;
+    expect(fn).toHaveBeenCalledTimes(1);
+
+    await expect(withRetry(fn, { signal: AbortSignal.abort(new Error("already")) })).rejects.toThrow("already");
+  });
+
+  it("keeps jitter strategies within their bounds", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.999);
+    expect(computeJitteredDelay("full", 3, 100, 500)).toBeLessThan(500);
+    expect(computeJitteredDelay("equal", 1, 100, 500)).toBeGreaterThanOrEqual(100);
+    expect(computeJitteredDelay("decorrelated", 0, 100, 2000, 400)).toBeLessThanOrEqual(1200);
+    expect(computeJitteredDelay("decorrelated", 0, 100, 1000, 900)).toBe(1000);
+
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect(computeJitteredDelay("full", 3, 100, 500)).toBe(0);
+    expect(computeJitteredDelay("decorrelated", 4, 100, 1000, 900)).toBe(100);
+  });
+});
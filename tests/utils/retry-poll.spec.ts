@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { PollTimeoutError, pollUntil } from "../../src/utils/retry.utils.js";
+
+describe("pollUntil", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("returns the first value the predicate accepts, growing the interval with backoff", async () => {
+    const totals = [0, 0, 0, 2];
+    const fn = vi.fn(async () => ({ total: totals.shift() ?? 0 }));
+    const onAttempt = vi.fn();
+
+    const pending = pollUntil(fn, (res) => res.total > 0, { interval: 100, backoff: 2, onAttempt });
+    await vi.runAllTimersAsync();
+
+    await expect(pending).resolves.toEqual({ total: 2 });
+    expect(onAttempt.mock.calls.map(([attempt]) => [attempt.attempt, attempt.elapsedMs, attempt.satisfied])).toEqual([
+      [1, 0, false],
+      [2, 100, false],
+      [3, 300, false],
+      [4, 700, true],
+    ]);
+  });
+
+  it("throws a descriptive timeout error with the redacted last value", async () => {
+    const fn = vi.fn(async () => ({ state: "Submitted", accessToken: "secret-token" }));
+
+    const pending = pollUntil(fn, (c) => c.state === "Listed", {
+      interval: 400,
+      timeout: 1_000,
+      description: "case to reach Listed",
+    });
+    const outcome = pending.catch((error: unknown) => error);
+    await vi.runAllTimersAsync();
+    const error = (await outcome) as PollTimeoutError<{ state: string }>;
+
+    expect(error).toBeInstanceOf(PollTimeoutError);
+    expect(error.message).toBe(
+      'Timed out after 1000ms (4 attempts) waiting for case to reach Listed; last value: {"state":"Submitted","accessToken":"[REDACTED]"}'
+    );
+    expect(error.attempts.map((attempt) => attempt.elapsedMs)).toEqual([0, 400, 800, 1000]);
+    expect(error.lastValue?.state).toBe("Submitted");
+  });
+
+  it("keeps polling through ignored errors and rethrows others", async () => {
+    let calls = 0;
+    const flaky = vi.fn(async () => {
+      calls++;
+      if (calls < 3) throw Object.assign(new Error("Not found"), { status: 404 });
+      return "task-1";
+    });
+    const pending = pollUntil(flaky, (id) => id.startsWith("task"), {
+      interval: 10,
+      ignoreErrors: (error) => (error as { status?: number }).status === 404,
+    });
+    await vi.runAllTimersAsync();
+    await expect(pending).resolves.toBe("task-1");
+
+    await expect(
+      pollUntil(() => Promise.reject(new Error("Unauthorised")), () => true)
+    ).rejects.toThrow("Unauthorised");
+    await expect(pollUntil(async () => 1, () => true, { backoff: 0.5 })).rejects.toThrow(
+      "poll backoff must be >= 1, got 0.5"
+    );
+  });
+});
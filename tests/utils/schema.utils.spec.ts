@@ -0,0 +1,135 @@
+import { describe, expect, it, vi } from "vitest";
+import type { APIRequestContext, APIResponse } from "@playwright/test";
+import {
+  validateJsonSchema,
+  validateSchema,
+  type JsonSchema,
+} from "../../src/utils/schema.utils.js";
+import { ApiClient, ApiSchemaError } from "../../src/utils/api-client.js";
+import type { ApiLogEntry } from "../../src/utils/api-client.js";
+
+const caseSchema: JsonSchema = {
+  type: "object",
+  required: ["id", "state"],
+  properties: {
+    id: { type: "integer" },
+    state: { type: "string", enum: ["Submitted", "Issued"] },
+    case_data: {
+      type: "object",
+      properties: {
+        applicants: {
+          type: "array",
+          items: {
+            type: "object",
+            required: ["name"],
+            properties: { name: { type: "string", minLength: 1 } },
+          },
+        },
+      },
+    },
+  },
+};
+
+function createClient(body: unknown) {
+  const response = {
+    status: () => 200,
+    ok: () => true,
+    headers: () => ({ "content-type": "application/json" }),
+    text: async () => JSON.stringify(body),
+  } as unknown as APIResponse;
+  const entries: ApiLogEntry[] = [];
+  const client = new ApiClient({
+    baseUrl: "https://example.com",
+    requestFactory: async () =>
+      ({ fetch: vi.fn(async () => response), dispose: vi.fn() }) as unknown as APIRequestContext,
+    onResponse: (entry) => entries.push(entry),
+  });
+  return { client, entries };
+}
+
+describe("validateJsonSchema", () => {
+  it("accepts matching data", () => {
+    const issues = validateJsonSchema(caseSchema, {
+      id: 1,
+      state: "Submitted",
+      case_data: { applicants: [{ name: "Jo" }] },
+    });
+    expect(issues).toEqual([]);
+  });
+
+  it("reports the failing paths", () => {
+    const issues = validateJsonSchema(caseSchema, {
+      id: "1",
+      state: "Closed",
+      case_data: { applicants: [{ name: "" }, {}] },
+    });
+
+    expect(issues.map((issue) => issue.path)).toEqual([
+      "$.id",
+      "$.state",
+      "$.case_data.applicants[0].name",
+      "$.case_data.applicants[1].name",
+    ]);
+  });
+
+  it("supports additionalProperties and combinators", () => {
+    const schema: JsonSchema = {
+      type: "object",
+      additionalProperties: false,
+      properties: { value: { anyOf: [{ type: "string" }, { type: "null" }] } },
+    };
+    expect(validateJsonSchema(schema, { value: null })).toEqual([]);
+    expect(validateJsonSchema(schema, { value: 1, extra: true }).map((i) => i.path)).toEqual([
+      "$.value",
+      "$.extra",
+    ]);
+  });
+});
+
+describe("validateSchema", () => {
+  it("uses parse() validators and normalises zod-style issues", () => {
+    const validator = {
+      parse: () => {
+        throw Object.assign(new Error("invalid"), {
+          issues: [{ path: ["case_data", "applicants", 0, "name"], message: "Required" }],
+        });
+      },
+    };
+
+    const result = validateSchema(validator, {});
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([
+      { path: "$.case_data.applicants[0].name", message: "Required" },
+    ]);
+  });
+
+  it("returns the parsed value from parse() validators", () => {
+    const result = validateSchema({ parse: (data) => ({ wrapped: data }) }, 1);
+    expect(result).toEqual({ valid: true, data: { wrapped: 1 }, issues: [] });
+  });
+});
+
+describe("ApiClient schema option", () => {
+  it("records a passing validation in the log entry", async () => {
+    const { client, entries } = createClient({ id: 1, state: "Issued" });
+
+    const res = await client.get("/cases/1", { schema: caseSchema });
+
+    expect(res.logEntry.schemaValidation).toEqual({ valid: true });
+    expect(entries[0]?.schemaValidation?.valid).toBe(true);
+  });
+
+  it("throws ApiSchemaError with the failing paths", async () => {
+    const { client, entries } = createClient({ id: 1 });
+
+    const error = await client.get("/cases/1", { schema: caseSchema }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ApiSchemaError);
+    expect((error as ApiSchemaError).paths).toEqual(["$.state"]);
+    expect((error as ApiSchemaError).status).toBe(200);
+    expect(entries[0]?.schemaValidation).toEqual({
+      valid: false,
+      issues: [{ path: "$.state", message: "is required" }],
+    });
+  });
+});
@@ -115,6 +115,20 @@ describe("ServiceAuthUtils", () => {
     );
   });
 
+  it("treats S2S_RETRY_ATTEMPTS=0 as a single attempt", async () => {
+    process.env.S2S_RETRY_ATTEMPTS = "0";
+    const { instance: client, mock } = createApiClientMock();
+    mock.post.mockResolvedValue(buildResponse("token-value"));
+    const utils = new ServiceAuthUtils({ client, logger: silentLogger() });
+
+    await utils.retrieveToken({ microservice: "prl-cos-api" });
+
+    expect(mock.post).toHaveBeenCalledWith(
+      "",
+      expect.objectContaining({ retry: expect.objectContaining({ attempts: 1 }) })
+    );
+  });
+
   it("throws a helpful error when the request fails", async () => {
     const error = new ApiClientError(
       "fail",
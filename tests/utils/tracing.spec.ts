@@ -0,0 +1,198 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { PassThrough } from "stream";
+import type { APIRequestContext, APIResponse } from "@playwright/test";
+import { describe, expect, it, vi } from "vitest";
+import { transports as winstonTransports, type Logger } from "winston";
+import { createLogger } from "../../src/logging/logger.js";
+import { ApiClient } from "../../src/utils/api-client.js";
+import { MockServer } from "../../src/utils/mock-server.js";
+import {
+  JsonFileSpanExporter,
+  OtlpHttpExporter,
+  Tracer,
+  parseTraceparent,
+  type SpanData,
+} from "../../src/utils/tracing.js";
+
+const ORIGINAL_ENV = { ...process.env };
+
+function silentLogger() {
+  return createLogger({ transports: [new winstonTransports.Stream({ stream: new PassThrough() })], format: "json" });
+}
+
+function fakeResponse(status: number, body = "{}"): APIResponse {
+  return {
+    status: () => status,
+    ok: () => status >= 200 && status < 300,
+    headers: () => ({ "content-type": "application/json" }),
+    text: async () => body,
+  } as unknown as APIResponse;
+}
+
+function memoryTracer(options?: ConstructorParameters<typeof Tracer>[0]) {
+  const spans: SpanData[] = [];
+  const tracer = new Tracer({
+    serviceName: "civil-e2e",
+    traceparent: "",
+    ...options,
+    exporters: [{ export: async (batch) => void spans.push(...batch) }],
+  });
+  return { tracer, spans };
+}
+
+describe("ApiClient tracing", () => {
+  it("records a client span per request under the active span and sends its traceparent", async () => {
+    const statuses = [201, 500];
+    const fetch = vi.fn(async () => fakeResponse(statuses.shift() ?? 200));
+    const { tracer, spans } = memoryTracer();
+    const client = new ApiClient({
+      baseUrl: "https://ccd.example.com:8443",
+      requestFactory: async () => ({ fetch, dispose: vi.fn() }) as unknown as APIRequestContext,
+      logger: silentLogger(),
+      correlationId: "corr-1",
+      tracing: { tracer },
+    });
+
+    const created = await tracer.trace("create case", () =>
+      client.post("/cases/1234567890123456/events?token=abc", { data: {}, operation: "submitEvent" })
+    );
+    const failed = await client.get("/cases/1234567890123456", { throwOnError: false });
+    await tracer.flush();
+
+    const [request, outer, failedRequest] = spans;
+    const sent = (fetch.mock.calls[0] as unknown as [string, { headers: Record<string, string> }])[1].headers;
+    expect(spans.map((span) => span.name)).toEqual(["POST /cases/:id/events", "create case", "GET /cases/:id"]);
+    expect(sent.traceparent).toBe(`00-${outer?.traceId}-${request?.spanId}-01`);
+    expect(request).toMatchObject({
+      kind: "client",
+      parentSpanId: outer?.spanId,
+      status: { code: "unset" },
+      attributes: {
+        "http.request.method": "POST",
+        "url.full": "https://ccd.example.com:8443/cases/1234567890123456/events?token=%5BREDACTED%5D",
+        "server.address": "ccd.example.com",
+        "server.port": 8443,
+        "http.response.status_code": 201,
+        "api.correlation_id": "corr-1",
+        "api.operation": "submitEvent",
+      },
+    });
+    expect(typeof request?.attributes["api.duration_ms"]).toBe("number");
+    expect(created.logEntry).toMatchObject({ traceId: outer?.traceId, spanId: request?.spanId });
+
+    expect(failedRequest?.parentSpanId).toBeUndefined();
+    expect(failedRequest?.traceId).not.toBe(outer?.traceId);
+    expect(failedRequest?.status).toEqual({ code: "error", message: "Request failed with status 500" });
+    expect(failed.logEntry.spanId).toBe(failedRequest?.spanId);
+  });
+
+  it("continues a caller's traceparent, honours sampling and can skip propagation", async () => {
+    const fetch = vi.fn(async () => fakeResponse(200));
+    const requestFactory = async () => ({ fetch, dispose: vi.fn() }) as unknown as APIRequestContext;
+    const { tracer, spans } = memoryTracer({ traceparent: "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01" });
+    const client = new ApiClient({ baseUrl: "https://example.com", requestFactory, logger: silentLogger(), tracing: { tracer } });
+    const sentHeaders = () => (fetch.mock.lastCall as unknown as [string, { headers: Record<string, string> }])[1].headers;
+
+    await client.get("/cases");
+    expect(sentHeaders().traceparent).toMatch(/^00-0af7651916cd43dd8448eb211c80319c-[0-9a-f]{16}-01$/);
+
+    await client.get("/cases", { headers: { TraceParent: "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-00" } });
+    const unsampled = sentHeaders();
+    expect(unsampled.TraceParent).toBeUndefined();
+    expect(unsampled.traceparent).toMatch(/^00-4bf92f3577b34da6a3ce929d0e0e4736-[0-9a-f]{16}-00$/);
+
+    const quiet = new ApiClient({
+      baseUrl: "https://example.com",
+      requestFactory,
+      logger: silentLogger(),
+      tracing: { tracer, propagate: false },
+    });
+    await quiet.get("/cases");
+    expect(sentHeaders().traceparent).toBeUndefined();
+
+    await tracer.flush();
+    expect(spans.map((span) => span.parentSpanId)).toEqual(["b7ad6b7169203331", "b7ad6b7169203331"]);
+    expect(parseTraceparent("00-00000000000000000000000000000000-b7ad6b7169203331-01")).toBeUndefined();
+    expect(parseTraceparent("ff-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01")).toBeUndefined();
+    expect(() => new Tracer({ batchSize: 0 })).toThrow("batchSize must be >= 1, got 0");
+  });
+
+  it("exports OTLP JSON to a collector and JSON lines to a file, reporting export failures", async () => {
+    const server = await MockServer.start();
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "traces-"));
+    try {
+      server.post("/v1/traces", { body: {} }).get("/health", { body: { status: "UP" } });
+      const file = path.join(dir, "spans.jsonl");
+      const onExportError = vi.fn();
+      const tracer = new Tracer({
+        serviceName: "civil-e2e",
+        traceparent: "",
+        batchSize: 2,
+        onExportError,
+        exporters: [
+          new OtlpHttpExporter({ url: `${server.url}/v1/traces`, headers: { "x-api-key": "k" } }),
+          new JsonFileSpanExporter({ file }),
+          new OtlpHttpExporter({ url: `${server.url}/missing` }),
+        ],
+      });
+      const client = new ApiClient({ baseUrl: server.url, logger: silentLogger(), tracing: { tracer } });
+
+      await tracer.trace("health check", () => client.get("/health"));
+      await tracer.shutdown();
+
+      const [health] = server.requestsTo("GET", "/health");
+      const [exported] = server.requestsTo("POST", "/v1/traces");
+      expect(health?.headers.traceparent).toMatch(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/);
+      expect(exported?.headers["x-api-key"]).toBe("k");
+      expect(exported?.json).toMatchObject({
+        resourceSpans: [
+          {
+            resource: { attributes: [{ key: "service.name", value: { stringValue: "civil-e2e" } }] },
+            scopeSpans: [
+              {
+                spans: [
+                  {
+                    name: "GET /health",
+                    kind: 3,
+                    traceId: parseTraceparent(health?.headers.traceparent)?.traceId,
+                    status: { code: 0 },
+                    attributes: expect.arrayContaining([
+                      { key: "http.response.status_code", value: { intValue: "200" } },
+                    ]),
+                  },
+                  { name: "health check", kind: 1 },
+                ],
+              },
+            ],
+          },
+        ],
+      });
+
+      const lines = fs.readFileSync(file, "utf8").trim().split("\n").map((line) => JSON.parse(line) as SpanData);
+      expect(lines.map((line) => line.name)).toEqual(["GET /health", "health check"]);
+      expect(onExportError).toHaveBeenCalledWith(
+        new Error(`OTLP export to ${server.url}/missing failed with status 404`)
+      );
+
+      // Header values are URL-encoded; a malformed one is sent as written rather than throwing
+      process.env.OTEL_EXPORTER_OTLP_HEADERS = "x-api-key=abc%2,x-tenant=civil%20e2e";
+      const warn = vi.fn();
+      const envTracer = new Tracer({
+        traceparent: "",
+        logger: { warn } as unknown as Logger,
+        exporters: [new OtlpHttpExporter({ url: `${server.url}/v1/traces` }), new OtlpHttpExporter({ url: `${server.url}/gone` })],
+      });
+      envTracer.startSpan("setup").end();
+      await envTracer.flush();
+
+      expect(server.requestsTo("POST", "/v1/traces")[1]?.headers).toMatchObject({ "x-api-key": "abc%2", "x-tenant": "civil e2e" });
+      expect(warn).toHaveBeenCalledWith(`Span export failed: OTLP export to ${server.url}/gone failed with status 404`);
+    } finally {
+      process.env = { ...ORIGINAL_ENV };
+      await server.stop();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});